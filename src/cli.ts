@@ -3,12 +3,20 @@
 import { cli } from 'cleye';
 
 import packageJson from '../package.json' with { type: 'json' };
+import { cacheCommand } from './commands/cache';
 import { commit } from './commands/commit';
 import { commitlintConfigCommand } from './commands/commitlint';
-import { configCommand } from './commands/config';
+import {
+  CONFIG_KEYS,
+  configCommand,
+  configValidators
+} from './commands/config';
 import { hookCommand, isHookCalled } from './commands/githook.js';
+import { ignoreCommand } from './commands/ignore';
 import { prepareCommitMessageHook } from './commands/prepare-commit-msg-hook';
+import { usageCommand } from './commands/usage';
 import { checkIsLatestVersion } from './utils/checkIsLatestVersion';
+import { loadExternalEngine } from './utils/engine';
 import { runMigrations } from './migrations/_run.js';
 
 const extraArgs = process.argv.slice(2);
@@ -17,7 +25,14 @@ cli(
   {
     version: packageJson.version,
     name: 'opencommit',
-    commands: [configCommand, hookCommand, commitlintConfigCommand],
+    commands: [
+      configCommand,
+      hookCommand,
+      commitlintConfigCommand,
+      cacheCommand,
+      usageCommand,
+      ignoreCommand
+    ],
     flags: {
       fgm: {
         type: Boolean,
@@ -35,6 +50,16 @@ cli(
         alias: 'y',
         description: 'Skip commit confirmation prompt',
         default: false
+      },
+      candidates: {
+        type: Number,
+        description:
+          'Number of commit messages to generate and pick from, overrides OCO_CANDIDATES'
+      },
+      noCache: {
+        type: Boolean,
+        description: 'Ask the model again instead of reusing a cached response',
+        default: false
       }
     },
     ignoreArgv: (type) => type === 'unknown-flag' || type === 'argument',
@@ -43,11 +68,22 @@ cli(
   async ({ flags }) => {
     await runMigrations();
     await checkIsLatestVersion();
+    await loadExternalEngine();
 
     if (await isHookCalled()) {
       prepareCommitMessageHook();
     } else {
-      commit(extraArgs, flags.context, false, flags.fgm, flags.yes);
+      commit(
+        extraArgs,
+        flags.context,
+        false,
+        flags.fgm,
+        flags.yes,
+        flags.candidates === undefined
+          ? undefined
+          : configValidators[CONFIG_KEYS.OCO_CANDIDATES](flags.candidates),
+        flags.noCache
+      );
     }
   },
   extraArgs
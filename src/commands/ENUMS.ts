@@ -1,5 +1,8 @@
 export enum COMMANDS {
   config = 'config',
   hook = 'hook',
-  commitlint = 'commitlint'
+  commitlint = 'commitlint',
+  cache = 'cache',
+  usage = 'usage',
+  ignore = 'ignore'
 }
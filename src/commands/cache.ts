@@ -0,0 +1,56 @@
+import { intro, outro } from '@clack/prompts';
+import chalk from 'chalk';
+import { command } from 'cleye';
+import { getResponseCache } from '../utils/responseCache';
+import { COMMANDS } from './ENUMS';
+
+export enum CACHE_MODES {
+  clear = 'clear',
+  stats = 'stats'
+}
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const cacheCommand = command(
+  {
+    name: COMMANDS.cache,
+    parameters: ['<mode>']
+  },
+  async (argv) => {
+    intro('opencommit — response cache');
+    try {
+      const { mode } = argv._;
+      const cache = getResponseCache();
+
+      if (mode === CACHE_MODES.clear) {
+        const removed = await cache.clear();
+
+        outro(`${chalk.green('✔')} Removed ${removed} cached responses`);
+
+        return;
+      }
+
+      if (mode === CACHE_MODES.stats) {
+        const { dir, entries, bytes, expired } = await cache.stats();
+
+        outro(
+          `${dir}\n${entries} cached responses (${expired} expired), ${formatBytes(
+            bytes
+          )}`
+        );
+
+        return;
+      }
+
+      throw new Error(
+        `Unsupported mode: ${mode}. Valid modes are: "clear" and "stats"`
+      );
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${error}`);
+      process.exit(1);
+    }
+  }
+);
@@ -10,7 +10,14 @@ import {
 } from '@clack/prompts';
 import chalk from 'chalk';
 import { execa } from 'execa';
-import { generateCommitMessageByDiff } from '../generateCommitMessageFromGitDiff';
+import { CancelledEngineError } from '../engine/errors';
+import { EngineFallback } from '../engine/fallback';
+import {
+  CommitMessageRevision,
+  generateCommitMessageByDiff,
+  generateCommitMessageCandidatesByDiff,
+  refineCommitMessageByDiff
+} from '../generateCommitMessageFromGitDiff';
 import {
   assertGitRepo,
   getChangedFiles,
@@ -18,7 +25,14 @@ import {
   getStagedFiles,
   gitAdd
 } from '../utils/git';
+import { onEngineFallback } from '../utils/engine';
 import { trytm } from '../utils/trytm';
+import {
+  formatUsageSummary,
+  getModelPrices,
+  recordUsage,
+  UsageTracker
+} from '../utils/usage';
 import { getConfig } from './config';
 
 const config = getConfig();
@@ -37,12 +51,40 @@ const checkMessageTemplate = (extraArgs: string[]): string | false => {
   return false;
 };
 
+const selectCommitMessage = async (
+  commitMessages: string[]
+): Promise<string> => {
+  if (commitMessages.length === 1) return commitMessages[0];
+
+  const selectedMessage = await select({
+    message: 'Pick a commit message',
+    options: commitMessages.map((commitMessage) => {
+      const [subject, ...body] = commitMessage.split('\n');
+      const bodyLines = body.filter((line) => line.trim()).length;
+
+      return {
+        value: commitMessage,
+        label: subject,
+        hint: bodyLines ? `+${bodyLines} lines` : undefined
+      };
+    })
+  });
+
+  if (isCancel(selectedMessage)) process.exit(1);
+
+  return selectedMessage as string;
+};
+
 interface GenerateCommitMessageFromGitDiffParams {
   diff: string;
   extraArgs: string[];
   context?: string;
   fullGitMojiSpec?: boolean;
   skipCommitConfirmation?: boolean;
+  candidates?: number;
+  revisions?: CommitMessageRevision[];
+  /** skips cached responses, e.g. on regenerate */
+  noCache?: boolean;
 }
 
 const generateCommitMessageFromGitDiff = async ({
@@ -50,18 +92,132 @@ const generateCommitMessageFromGitDiff = async ({
   extraArgs,
   context = '',
   fullGitMojiSpec = false,
-  skipCommitConfirmation = false
+  skipCommitConfirmation = false,
+  candidates = config.OCO_CANDIDATES,
+  revisions = [],
+  noCache = false
 }: GenerateCommitMessageFromGitDiffParams): Promise<void> => {
   await assertGitRepo();
   const commitGenerationSpinner = spinner();
   commitGenerationSpinner.start('Generating the commit message');
 
-  try {
-    let commitMessage = await generateCommitMessageByDiff(
-      diff,
-      fullGitMojiSpec,
-      context
+  let generationState: 'spinning' | 'streaming' | 'done' = 'spinning';
+  const bar = chalk.grey('│');
+
+  // clack's spinner can't change its text once started, so it gives way to
+  // the live preview as soon as the first chunk arrives
+  const renderChunk = (chunk: string) => {
+    if (generationState === 'spinning') {
+      commitGenerationSpinner.stop('📝 Generating the commit message');
+      process.stdout.write(`${bar}  `);
+      generationState = 'streaming';
+    }
+
+    process.stdout.write(chalk.grey(chunk.replace(/\n/g, `\n${bar}  `)));
+  };
+
+  const fallbacks: EngineFallback[] = [];
+  const stopListening = onEngineFallback((fallback) =>
+    fallbacks.push(fallback)
+  );
+
+  // Ctrl-C cancels the requests in flight. While the spinner runs clack
+  // exits the process by itself, so that is caught on exit, the preview
+  // gets a SIGINT
+  const generationController = new AbortController();
+  const cancelGeneration = () => generationController.abort();
+  const cancelOnExit = () => {
+    cancelGeneration();
+    stopGeneration(`${chalk.red('✖')} Commit message generation cancelled`);
+    process.exitCode = 130;
+  };
+
+  const stopGeneration = (message: string) => {
+    stopListening();
+    process.off('SIGINT', cancelGeneration);
+    process.off('exit', cancelOnExit);
+    if (generationState === 'spinning') commitGenerationSpinner.stop(message);
+    if (generationState === 'streaming') process.stdout.write('\n');
+    generationState = 'done';
+  };
+
+  process.once('SIGINT', cancelGeneration);
+  process.once('exit', cancelOnExit);
+
+  const usageTracker = new UsageTracker();
+  const generateOptions = {
+    signal: generationController.signal,
+    noCache,
+    onUsage: usageTracker.record
+  };
+
+  // tokens of failed runs are billed as well, so this runs either way, but
+  // only once as the catch below also sees errors after generation
+  let isUsageReported = false;
+  const reportUsage = async () => {
+    const usage = usageTracker.getUsage();
+    if (!usage.length || isUsageReported) return;
+    isUsageReported = true;
+
+    outro(
+      `📊 ${formatUsageSummary(usage, getModelPrices(config.OCO_MODEL_PRICES))}`
     );
+    await recordUsage(usage);
+  };
+
+  try {
+    let commitMessage: string;
+
+    if (revisions.length) {
+      commitMessage = await refineCommitMessageByDiff(
+        diff,
+        revisions,
+        fullGitMojiSpec,
+        context,
+        renderChunk,
+        generateOptions
+      );
+
+      stopGeneration('📝 Commit message revised');
+    } else if (candidates > 1) {
+      const commitMessages = await generateCommitMessageCandidatesByDiff(
+        diff,
+        candidates,
+        fullGitMojiSpec,
+        context,
+        generateOptions
+      );
+
+      stopGeneration(`📝 ${commitMessages.length} commit messages generated`);
+
+      commitMessage = skipCommitConfirmation
+        ? commitMessages[0]
+        : await selectCommitMessage(commitMessages);
+    } else {
+      commitMessage = await generateCommitMessageByDiff(
+        diff,
+        fullGitMojiSpec,
+        context,
+        renderChunk,
+        generateOptions
+      );
+
+      stopGeneration('📝 Commit message generated');
+    }
+
+    await reportUsage();
+
+    // tells which OCO_MODEL_FALLBACKS model produced the message
+    for (const { from, to, error } of fallbacks) {
+      outro(
+        `${chalk.yellow('!')} ${from} failed, fell back to ${to}: ${
+          error.message
+        }`
+      );
+    }
+
+    // revisions refer to the model's own words, not the templated message
+    const generatedCommitMessage = commitMessage;
 
     const messageTemplate = checkMessageTemplate(extraArgs);
     if (
@@ -77,8 +233,6 @@ const generateCommitMessageFromGitDiff = async ({
       );
     }
 
-    commitGenerationSpinner.stop('📝 Commit message generated');
-
     outro(
       `Generated commit message:
 ${chalk.grey('——————————————————')}
@@ -93,12 +247,40 @@ ${chalk.grey('——————————————————')}`
           options: [
             { value: 'Yes', label: 'Yes' },
             { value: 'No', label: 'No' },
-            { value: 'Edit', label: 'Edit' }
+            { value: 'Edit', label: 'Edit' },
+            { value: 'Refine', label: 'Refine', hint: 'tell what to change' }
           ]
         });
 
     if (isCancel(userAction)) process.exit(1);
 
+    if (userAction === 'Refine') {
+      const feedback = await text({
+        message: 'What should change?',
+        placeholder: 'e.g. mention the migration, shorter subject',
+        validate: (value) =>
+          value.trim() ? undefined : 'Describe what to change'
+      });
+
+      if (isCancel(feedback)) process.exit(1);
+
+      await generateCommitMessageFromGitDiff({
+        diff,
+        extraArgs,
+        context,
+        fullGitMojiSpec,
+        skipCommitConfirmation,
+        candidates,
+        noCache,
+        revisions: [
+          ...revisions,
+          { commitMessage: generatedCommitMessage, feedback }
+        ]
+      });
+
+      return;
+    }
+
     if (userAction === 'Edit') {
       const textResponse = await text({
         message: 'Please edit the commit message: (press Enter to continue)',
@@ -202,16 +384,24 @@ ${chalk.grey('——————————————————')}`
         await generateCommitMessageFromGitDiff({
           diff,
           extraArgs,
-          fullGitMojiSpec
+          context,
+          fullGitMojiSpec,
+          skipCommitConfirmation,
+          candidates,
+          // the same diff would be answered from the cache again
+          noCache: true
         });
       }
     }
   } catch (error) {
-    commitGenerationSpinner.stop(
-      `${chalk.red('✖')} Failed to generate the commit message`
-    );
+    if (error instanceof CancelledEngineError) {
+      stopGeneration(`${chalk.red('✖')} Commit message generation cancelled`);
+      await reportUsage();
+      process.exit(130);
+    }
 
-    console.log(error);
+    stopGeneration(`${chalk.red('✖')} Failed to generate the commit message`);
+    await reportUsage();
 
     const err = error as Error;
     outro(`${chalk.red('✖')} ${err?.message || err}`);
@@ -224,7 +414,9 @@ export async function commit(
   context: string = '',
   isStageAllFlag: Boolean = false,
   fullGitMojiSpec: boolean = false,
-  skipCommitConfirmation: boolean = false
+  skipCommitConfirmation: boolean = false,
+  candidates: number = config.OCO_CANDIDATES,
+  noCache: boolean = false
 ) {
   if (isStageAllFlag) {
     const changedFiles = await getChangedFiles();
@@ -264,7 +456,15 @@ export async function commit(
     if (isCancel(isStageAllAndCommitConfirmedByUser)) process.exit(1);
 
     if (isStageAllAndCommitConfirmedByUser) {
-      await commit(extraArgs, context, true, fullGitMojiSpec);
+      await commit(
+        extraArgs,
+        context,
+        true,
+        fullGitMojiSpec,
+        skipCommitConfirmation,
+        candidates,
+        noCache
+      );
       process.exit(0);
     }
 
@@ -282,7 +482,15 @@ export async function commit(
       await gitAdd({ files });
     }
 
-    await commit(extraArgs, context, false, fullGitMojiSpec);
+    await commit(
+      extraArgs,
+      context,
+      false,
+      fullGitMojiSpec,
+      skipCommitConfirmation,
+      candidates,
+      noCache
+    );
     process.exit(0);
   }
 
@@ -292,13 +500,23 @@ export async function commit(
       .join('\n')}`
   );
 
+  // throws on secrets with OCO_SECRET_REDACTION=abort
+  const [diff, diffError] = await trytm(getDiff({ files: stagedFiles }));
+
+  if (diffError) {
+    outro(`${chalk.red('✖')} ${diffError}`);
+    process.exit(1);
+  }
+
   const [, generateCommitError] = await trytm(
     generateCommitMessageFromGitDiff({
-      diff: await getDiff({ files: stagedFiles }),
+      diff,
       extraArgs,
       context,
       fullGitMojiSpec,
-      skipCommitConfirmation
+      skipCommitConfirmation,
+      candidates,
+      noCache
     })
   );
 
@@ -7,7 +7,14 @@ import { parse as iniParse, stringify as iniStringify } from 'ini';
 import { homedir } from 'os';
 import { join as pathJoin, resolve as pathResolve } from 'path';
 import { COMMANDS } from './ENUMS';
+import { parseModelFallbacks } from '../engine/fallback';
+import {
+  getEngineDefinition,
+  getEngineDefinitions,
+  loadEngineModule
+} from '../engine/registry';
 import { getI18nLocal, i18n } from '../i18n';
+import { CONDENSE_STRATEGIES } from '../utils/condenseDiff';
 
 export enum CONFIG_KEYS {
   OCO_API_KEY = 'OCO_API_KEY',
@@ -21,11 +28,40 @@ export enum CONFIG_KEYS {
   OCO_MESSAGE_TEMPLATE_PLACEHOLDER = 'OCO_MESSAGE_TEMPLATE_PLACEHOLDER',
   OCO_PROMPT_MODULE = 'OCO_PROMPT_MODULE',
   OCO_AI_PROVIDER = 'OCO_AI_PROVIDER',
+  OCO_ENGINE_MODULE = 'OCO_ENGINE_MODULE',
   OCO_ONE_LINE_COMMIT = 'OCO_ONE_LINE_COMMIT',
 
   OCO_API_URL = 'OCO_API_URL',
   OCO_API_CUSTOM_HEADERS = 'OCO_API_CUSTOM_HEADERS',
   OCO_OMIT_SCOPE = 'OCO_OMIT_SCOPE',
+  OCO_RETRY_MAX_ATTEMPTS = 'OCO_RETRY_MAX_ATTEMPTS',
+  OCO_RETRY_BASE_DELAY_MS = 'OCO_RETRY_BASE_DELAY_MS',
+  OCO_RETRY_JITTER = 'OCO_RETRY_JITTER',
+  OCO_CANDIDATES = 'OCO_CANDIDATES',
+  OCO_MODEL_FALLBACKS = 'OCO_MODEL_FALLBACKS',
+  OCO_TEMPERATURE = 'OCO_TEMPERATURE',
+  OCO_TOP_P = 'OCO_TOP_P',
+  OCO_TOP_K = 'OCO_TOP_K',
+  OCO_STOP_SEQUENCES = 'OCO_STOP_SEQUENCES',
+  OCO_SAFETY_HARASSMENT = 'OCO_SAFETY_HARASSMENT',
+  OCO_SAFETY_HATE_SPEECH = 'OCO_SAFETY_HATE_SPEECH',
+  OCO_SAFETY_SEXUALLY_EXPLICIT = 'OCO_SAFETY_SEXUALLY_EXPLICIT',
+  OCO_SAFETY_DANGEROUS_CONTENT = 'OCO_SAFETY_DANGEROUS_CONTENT',
+  OCO_REQUEST_TIMEOUT_MS = 'OCO_REQUEST_TIMEOUT_MS',
+  OCO_STRUCTURED_OUTPUT = 'OCO_STRUCTURED_OUTPUT',
+  OCO_FIXTURES_DIR = 'OCO_FIXTURES_DIR',
+  OCO_RECORD_FIXTURES = 'OCO_RECORD_FIXTURES',
+  OCO_CACHE = 'OCO_CACHE',
+  OCO_CACHE_TTL_MS = 'OCO_CACHE_TTL_MS',
+  OCO_CACHE_MAX_MB = 'OCO_CACHE_MAX_MB',
+  OCO_MODEL_PRICES = 'OCO_MODEL_PRICES',
+  OCO_MAX_CONCURRENT_REQUESTS = 'OCO_MAX_CONCURRENT_REQUESTS',
+  OCO_REQUESTS_PER_MINUTE = 'OCO_REQUESTS_PER_MINUTE',
+  OCO_SECRET_REDACTION = 'OCO_SECRET_REDACTION',
+  OCO_SECRET_PATTERNS = 'OCO_SECRET_PATTERNS',
+  OCO_GENERATED_GLOBS = 'OCO_GENERATED_GLOBS',
+  OCO_DIFF_CONDENSE = 'OCO_DIFF_CONDENSE',
+  OCO_DIFF_SYMBOLS = 'OCO_DIFF_SYMBOLS',
   OCO_GITPUSH = 'OCO_GITPUSH', // todo: deprecate
   OCO_HOOK_AUTO_UNCOMMENT = 'OCO_HOOK_AUTO_UNCOMMENT'
 }
@@ -36,21 +72,16 @@ export enum CONFIG_MODES {
   describe = 'describe'
 }
 
-export const MODEL_LIST = {
-  gemini: [
-    'gemini-3-flash',
-    'gemini-2.5-pro',
-    'gemini-2.5-flash',
-    'gemini-2.5-flash-lite',
-    'gemini-1.5-pro',
-    'gemini-1.5-flash'
-  ]
-};
+export const getModelList = (): Record<string, string[]> =>
+  Object.fromEntries(
+    getEngineDefinitions().map((definition) => [
+      definition.name,
+      definition.models ?? ['Any model name']
+    ])
+  );
 
-const getDefaultModel = (provider: string | undefined): string => {
-  // gemini-2.5-flash is widely available and performant
-  return 'gemini-2.5-flash';
-};
+const getDefaultModel = (provider: string): string =>
+  getEngineDefinition(provider)?.defaultModel ?? 'gemini-2.5-flash';
 
 export enum DEFAULT_TOKEN_LIMITS {
   DEFAULT_MAX_TOKENS_INPUT = 4096,
@@ -73,6 +104,23 @@ const validateConfig = (
   }
 };
 
+export const SAFETY_THRESHOLDS = [
+  'BLOCK_NONE',
+  'BLOCK_ONLY_HIGH',
+  'BLOCK_MEDIUM_AND_ABOVE',
+  'BLOCK_LOW_AND_ABOVE'
+];
+
+const validateSafetyThreshold = (key: string, value: any) => {
+  validateConfig(
+    key,
+    SAFETY_THRESHOLDS.includes(value),
+    `Must be one of ${SAFETY_THRESHOLDS.join(', ')}`
+  );
+
+  return value;
+};
+
 export const configValidators = {
   [CONFIG_KEYS.OCO_API_KEY](value: any, config: any = {}) {
     validateConfig(
@@ -180,10 +228,27 @@ export const configValidators = {
   },
 
   [CONFIG_KEYS.OCO_MODEL](value: any, config: any = {}) {
+    const provider = config.OCO_AI_PROVIDER || OCO_AI_PROVIDER_ENUM.GEMINI;
+    const models = getEngineDefinition(provider)?.models;
+
+    // engines without a model list (e.g. OpenAI-compatible gateways) accept any model
+    if (!models) {
+      validateConfig(
+        CONFIG_KEYS.OCO_MODEL,
+        typeof value === 'string' && value.length > 0,
+        `Must be a non-empty model name served by ${provider}`
+      );
+      return value;
+    }
+
     validateConfig(
       CONFIG_KEYS.OCO_MODEL,
-      typeof value === 'string' && MODEL_LIST.gemini.includes(value),
-      `'${value}' is not a supported model. Supported models are:\n\n  ${MODEL_LIST.gemini.join('\n  ')}`
+      typeof value === 'string' && models.includes(value),
+      models.length
+        ? `'${value}' is not a supported model. Supported models are:\n\n  ${models.join(
+            '\n  '
+          )}`
+        : `'${value}' is not available, no models were found for ${provider}. Make sure it is running and has models installed`
     );
     return value;
   },
@@ -219,15 +284,28 @@ export const configValidators = {
   [CONFIG_KEYS.OCO_AI_PROVIDER](value: any) {
     if (!value) value = 'gemini';
 
+    const providers = getEngineDefinitions().map(({ name }) => name);
+
     validateConfig(
       CONFIG_KEYS.OCO_AI_PROVIDER,
-      value === 'gemini',
-      `${value} is not supported. Only 'gemini' is supported.`
+      providers.includes(value),
+      `${value} is not supported. Supported providers are: ${providers.join(
+        ', '
+      )}. External engines need OCO_ENGINE_MODULE to be set`
     );
 
     return value;
   },
 
+  [CONFIG_KEYS.OCO_ENGINE_MODULE](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_ENGINE_MODULE,
+      typeof value === 'string' && existsSync(pathResolve(value)),
+      `${value} does not exist. Use a path to a .js or .mjs module`
+    );
+    return value;
+  },
+
   [CONFIG_KEYS.OCO_ONE_LINE_COMMIT](value: any) {
     validateConfig(
       CONFIG_KEYS.OCO_ONE_LINE_COMMIT,
@@ -249,6 +327,329 @@ export const configValidators = {
     return value;
   },
 
+  [CONFIG_KEYS.OCO_RETRY_MAX_ATTEMPTS](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_RETRY_MAX_ATTEMPTS,
+      !isNaN(value) && value >= 1,
+      'Must be a positive integer, 1 disables retrying'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_RETRY_BASE_DELAY_MS](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_RETRY_BASE_DELAY_MS,
+      !isNaN(value) && value >= 0,
+      'Must be a non-negative number of milliseconds'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_RETRY_JITTER](value: any) {
+    value = parseFloat(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_RETRY_JITTER,
+      !isNaN(value) && value >= 0 && value <= 1,
+      'Must be a number between 0 and 1'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_CANDIDATES](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_CANDIDATES,
+      !isNaN(value) && value >= 1 && value <= 8,
+      'Must be an integer from 1 to 8'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_MODEL_FALLBACKS](value: any, config: any = {}) {
+    const provider = config.OCO_AI_PROVIDER || OCO_AI_PROVIDER_ENUM.GEMINI;
+
+    for (const fallback of parseModelFallbacks(String(value), provider)) {
+      const models = getEngineDefinition(fallback.provider)?.models;
+
+      // undiscovered or open model lists are checked when the model is used
+      validateConfig(
+        CONFIG_KEYS.OCO_MODEL_FALLBACKS,
+        !models?.length || models.includes(fallback.model),
+        `'${fallback.model}' is not a supported ${fallback.provider} model`
+      );
+    }
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_TEMPERATURE](value: any) {
+    value = parseFloat(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_TEMPERATURE,
+      !isNaN(value) && value >= 0 && value <= 2,
+      'Must be a number from 0 to 2'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_TOP_P](value: any) {
+    value = parseFloat(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_TOP_P,
+      !isNaN(value) && value > 0 && value <= 1,
+      'Must be a number greater than 0 and at most 1'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_TOP_K](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_TOP_K,
+      !isNaN(value) && value >= 1,
+      'Must be a positive integer'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_STOP_SEQUENCES](value: any) {
+    // a plain string is a single stop sequence
+    const stopSequences = typeof value === 'string' ? [value] : value;
+
+    validateConfig(
+      CONFIG_KEYS.OCO_STOP_SEQUENCES,
+      Array.isArray(stopSequences) &&
+        stopSequences.length <= 5 &&
+        stopSequences.every((stop) => typeof stop === 'string' && stop),
+      'Must be a JSON array of up to 5 non-empty strings, e.g. ["\\n\\n"]'
+    );
+
+    return JSON.stringify(stopSequences);
+  },
+
+  [CONFIG_KEYS.OCO_SAFETY_HARASSMENT](value: any) {
+    return validateSafetyThreshold(CONFIG_KEYS.OCO_SAFETY_HARASSMENT, value);
+  },
+
+  [CONFIG_KEYS.OCO_SAFETY_HATE_SPEECH](value: any) {
+    return validateSafetyThreshold(CONFIG_KEYS.OCO_SAFETY_HATE_SPEECH, value);
+  },
+
+  [CONFIG_KEYS.OCO_SAFETY_SEXUALLY_EXPLICIT](value: any) {
+    return validateSafetyThreshold(
+      CONFIG_KEYS.OCO_SAFETY_SEXUALLY_EXPLICIT,
+      value
+    );
+  },
+
+  [CONFIG_KEYS.OCO_SAFETY_DANGEROUS_CONTENT](value: any) {
+    return validateSafetyThreshold(
+      CONFIG_KEYS.OCO_SAFETY_DANGEROUS_CONTENT,
+      value
+    );
+  },
+
+  [CONFIG_KEYS.OCO_REQUEST_TIMEOUT_MS](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_REQUEST_TIMEOUT_MS,
+      !isNaN(value) && value >= 0,
+      'Must be a non-negative integer, 0 disables the timeout'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_STRUCTURED_OUTPUT](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_STRUCTURED_OUTPUT,
+      typeof value === 'boolean',
+      'Must be true or false'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_FIXTURES_DIR](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_FIXTURES_DIR,
+      typeof value === 'string' && value.length > 0,
+      'Must be a path to a directory'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_RECORD_FIXTURES](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_RECORD_FIXTURES,
+      typeof value === 'boolean',
+      'Must be true or false'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_CACHE](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_CACHE,
+      typeof value === 'boolean',
+      'Must be true or false'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_CACHE_TTL_MS](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_CACHE_TTL_MS,
+      !isNaN(value) && value >= 0,
+      'Must be a non-negative integer'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_CACHE_MAX_MB](value: any) {
+    value = parseFloat(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_CACHE_MAX_MB,
+      !isNaN(value) && value > 0,
+      'Must be a positive number'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_MODEL_PRICES](value: any) {
+    let prices = value;
+    try {
+      if (typeof value === 'string') prices = JSON.parse(value);
+    } catch (error) {}
+
+    validateConfig(
+      CONFIG_KEYS.OCO_MODEL_PRICES,
+      typeof prices === 'object' &&
+        prices !== null &&
+        !Array.isArray(prices) &&
+        Object.values(prices).every(
+          (price: any) => price?.input >= 0 && price?.output >= 0
+        ),
+      'Must be a JSON object of USD prices per million tokens, e.g. {"gemini-2.5-flash": {"input": 0.3, "output": 2.5}}'
+    );
+
+    return JSON.stringify(prices);
+  },
+
+  [CONFIG_KEYS.OCO_MAX_CONCURRENT_REQUESTS](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_MAX_CONCURRENT_REQUESTS,
+      !isNaN(value) && value >= 1,
+      'Must be a positive integer'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_REQUESTS_PER_MINUTE](value: any) {
+    value = parseInt(value);
+    validateConfig(
+      CONFIG_KEYS.OCO_REQUESTS_PER_MINUTE,
+      !isNaN(value) && value >= 0,
+      'Must be a non-negative integer, 0 disables the limit'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_SECRET_REDACTION](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_SECRET_REDACTION,
+      Object.values(OCO_SECRET_REDACTION_ENUM).includes(value),
+      `${value} is not supported, use 'redact' (default), 'abort' or 'off'`
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_SECRET_PATTERNS](value: any) {
+    let patterns = value;
+    try {
+      if (typeof value === 'string') patterns = JSON.parse(value);
+    } catch (error) {}
+
+    const isValidPattern = (source: unknown) => {
+      try {
+        return typeof source === 'string' && !!new RegExp(source);
+      } catch (error) {
+        return false;
+      }
+    };
+
+    validateConfig(
+      CONFIG_KEYS.OCO_SECRET_PATTERNS,
+      typeof patterns === 'object' &&
+        patterns !== null &&
+        !Array.isArray(patterns) &&
+        Object.values(patterns).every(isValidPattern),
+      'Must be a JSON object of regular expressions by name, e.g. {"internal token": "corp_[a-z0-9]{32}"}'
+    );
+
+    return JSON.stringify(patterns);
+  },
+
+  [CONFIG_KEYS.OCO_GENERATED_GLOBS](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_GENERATED_GLOBS,
+      typeof value === 'string',
+      'Must be a comma-separated list of .gitignore-style patterns, e.g. gen/,*.generated.ts'
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_DIFF_CONDENSE](value: any) {
+    const strategies = String(value)
+      .split(',')
+      .map((strategy) => strategy.trim());
+
+    validateConfig(
+      CONFIG_KEYS.OCO_DIFF_CONDENSE,
+      value === 'none' ||
+        strategies.every((strategy) =>
+          Object.values(CONDENSE_STRATEGIES).includes(
+            strategy as CONDENSE_STRATEGIES
+          )
+        ),
+      `Must be 'none' or a comma-separated list of ${Object.values(
+        CONDENSE_STRATEGIES
+      ).join(', ')}`
+    );
+
+    return value;
+  },
+
+  [CONFIG_KEYS.OCO_DIFF_SYMBOLS](value: any) {
+    validateConfig(
+      CONFIG_KEYS.OCO_DIFF_SYMBOLS,
+      typeof value === 'boolean',
+      'Must be true or false'
+    );
+
+    return value;
+  },
+
   [CONFIG_KEYS.OCO_HOOK_AUTO_UNCOMMENT](value: any) {
     validateConfig(
       CONFIG_KEYS.OCO_HOOK_AUTO_UNCOMMENT,
@@ -259,7 +660,10 @@ export const configValidators = {
 };
 
 export enum OCO_AI_PROVIDER_ENUM {
-  GEMINI = 'gemini'
+  GEMINI = 'gemini',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+  OLLAMA = 'ollama',
+  REPLAY = 'replay'
 }
 
 export type ConfigType = {
@@ -275,11 +679,45 @@ export type ConfigType = {
   [CONFIG_KEYS.OCO_LANGUAGE]: string;
   [CONFIG_KEYS.OCO_MESSAGE_TEMPLATE_PLACEHOLDER]: string;
   [CONFIG_KEYS.OCO_PROMPT_MODULE]: OCO_PROMPT_MODULE_ENUM;
-  [CONFIG_KEYS.OCO_AI_PROVIDER]: OCO_AI_PROVIDER_ENUM;
+  // OCO_AI_PROVIDER_ENUM or the name of an OCO_ENGINE_MODULE engine
+  [CONFIG_KEYS.OCO_AI_PROVIDER]: string;
+  [CONFIG_KEYS.OCO_ENGINE_MODULE]?: string;
   [CONFIG_KEYS.OCO_GITPUSH]: boolean;
   [CONFIG_KEYS.OCO_ONE_LINE_COMMIT]: boolean;
   [CONFIG_KEYS.OCO_OMIT_SCOPE]: boolean;
 
+  [CONFIG_KEYS.OCO_RETRY_MAX_ATTEMPTS]: number;
+  [CONFIG_KEYS.OCO_RETRY_BASE_DELAY_MS]: number;
+  [CONFIG_KEYS.OCO_RETRY_JITTER]: number;
+  [CONFIG_KEYS.OCO_CANDIDATES]: number;
+  [CONFIG_KEYS.OCO_MODEL_FALLBACKS]?: string;
+  // unset unless configured, so candidates keep their own sampling
+  [CONFIG_KEYS.OCO_TEMPERATURE]?: number;
+  [CONFIG_KEYS.OCO_TOP_P]?: number;
+  [CONFIG_KEYS.OCO_TOP_K]?: number;
+  [CONFIG_KEYS.OCO_STOP_SEQUENCES]?: string[];
+  [CONFIG_KEYS.OCO_SAFETY_HARASSMENT]: string;
+  [CONFIG_KEYS.OCO_SAFETY_HATE_SPEECH]: string;
+  [CONFIG_KEYS.OCO_SAFETY_SEXUALLY_EXPLICIT]: string;
+  [CONFIG_KEYS.OCO_SAFETY_DANGEROUS_CONTENT]: string;
+  [CONFIG_KEYS.OCO_REQUEST_TIMEOUT_MS]: number;
+  [CONFIG_KEYS.OCO_STRUCTURED_OUTPUT]: boolean;
+  [CONFIG_KEYS.OCO_FIXTURES_DIR]?: string;
+  [CONFIG_KEYS.OCO_RECORD_FIXTURES]: boolean;
+  [CONFIG_KEYS.OCO_CACHE]: boolean;
+  [CONFIG_KEYS.OCO_CACHE_TTL_MS]: number;
+  [CONFIG_KEYS.OCO_CACHE_MAX_MB]: number;
+  [CONFIG_KEYS.OCO_MODEL_PRICES]?: Record<
+    string,
+    { input: number; output: number }
+  >;
+  [CONFIG_KEYS.OCO_MAX_CONCURRENT_REQUESTS]: number;
+  [CONFIG_KEYS.OCO_REQUESTS_PER_MINUTE]: number;
+  [CONFIG_KEYS.OCO_SECRET_REDACTION]: OCO_SECRET_REDACTION_ENUM;
+  [CONFIG_KEYS.OCO_SECRET_PATTERNS]?: Record<string, string>;
+  [CONFIG_KEYS.OCO_GENERATED_GLOBS]?: string;
+  [CONFIG_KEYS.OCO_DIFF_CONDENSE]: string;
+  [CONFIG_KEYS.OCO_DIFF_SYMBOLS]: boolean;
   [CONFIG_KEYS.OCO_HOOK_AUTO_UNCOMMENT]: boolean;
 };
 
@@ -309,6 +747,12 @@ const assertConfigsAreValid = (config: Record<string, any>) => {
   }
 };
 
+export enum OCO_SECRET_REDACTION_ENUM {
+  REDACT = 'redact',
+  ABORT = 'abort',
+  OFF = 'off'
+}
+
 enum OCO_PROMPT_MODULE_ENUM {
   CONVENTIONAL_COMMIT = 'conventional-commit',
   COMMITLINT = '@commitlint'
@@ -328,6 +772,25 @@ export const DEFAULT_CONFIG = {
 
   OCO_WHY: false,
   OCO_OMIT_SCOPE: false,
+  OCO_RETRY_MAX_ATTEMPTS: 3,
+  OCO_RETRY_BASE_DELAY_MS: 1000,
+  OCO_RETRY_JITTER: 0.2,
+  OCO_CANDIDATES: 1,
+  OCO_SAFETY_HARASSMENT: 'BLOCK_LOW_AND_ABOVE',
+  OCO_SAFETY_HATE_SPEECH: 'BLOCK_LOW_AND_ABOVE',
+  OCO_SAFETY_SEXUALLY_EXPLICIT: 'BLOCK_LOW_AND_ABOVE',
+  OCO_SAFETY_DANGEROUS_CONTENT: 'BLOCK_LOW_AND_ABOVE',
+  OCO_REQUEST_TIMEOUT_MS: 120000,
+  OCO_STRUCTURED_OUTPUT: false,
+  OCO_RECORD_FIXTURES: false,
+  OCO_CACHE: true,
+  OCO_CACHE_TTL_MS: 86400000,
+  OCO_CACHE_MAX_MB: 20,
+  OCO_MAX_CONCURRENT_REQUESTS: 4,
+  OCO_REQUESTS_PER_MINUTE: 0,
+  OCO_SECRET_REDACTION: OCO_SECRET_REDACTION_ENUM.REDACT,
+  OCO_DIFF_CONDENSE: 'context,whitespace,renames,deletions,data',
+  OCO_DIFF_SYMBOLS: true,
   OCO_GITPUSH: true, // todo: deprecate
   OCO_HOOK_AUTO_UNCOMMENT: false
 };
@@ -353,7 +816,8 @@ const getEnvConfig = (envPath: string) => {
     OCO_API_URL: process.env.OCO_API_URL,
     OCO_API_KEY: process.env.OCO_API_KEY,
     OCO_API_CUSTOM_HEADERS: process.env.OCO_API_CUSTOM_HEADERS,
-    OCO_AI_PROVIDER: process.env.OCO_AI_PROVIDER as OCO_AI_PROVIDER_ENUM,
+    OCO_AI_PROVIDER: process.env.OCO_AI_PROVIDER,
+    OCO_ENGINE_MODULE: process.env.OCO_ENGINE_MODULE,
 
     OCO_TOKENS_MAX_INPUT: parseConfigVarValue(process.env.OCO_TOKENS_MAX_INPUT),
     OCO_TOKENS_MAX_OUTPUT: parseConfigVarValue(
@@ -370,6 +834,46 @@ const getEnvConfig = (envPath: string) => {
 
     OCO_OMIT_SCOPE: parseConfigVarValue(process.env.OCO_OMIT_SCOPE),
 
+    OCO_RETRY_MAX_ATTEMPTS: parseConfigVarValue(
+      process.env.OCO_RETRY_MAX_ATTEMPTS
+    ),
+    OCO_RETRY_BASE_DELAY_MS: parseConfigVarValue(
+      process.env.OCO_RETRY_BASE_DELAY_MS
+    ),
+    OCO_RETRY_JITTER: parseConfigVarValue(process.env.OCO_RETRY_JITTER),
+    OCO_CANDIDATES: parseConfigVarValue(process.env.OCO_CANDIDATES),
+    OCO_MODEL_FALLBACKS: process.env.OCO_MODEL_FALLBACKS,
+    OCO_TEMPERATURE: parseConfigVarValue(process.env.OCO_TEMPERATURE),
+    OCO_TOP_P: parseConfigVarValue(process.env.OCO_TOP_P),
+    OCO_TOP_K: parseConfigVarValue(process.env.OCO_TOP_K),
+    OCO_STOP_SEQUENCES: parseConfigVarValue(process.env.OCO_STOP_SEQUENCES),
+    OCO_SAFETY_HARASSMENT: process.env.OCO_SAFETY_HARASSMENT,
+    OCO_SAFETY_HATE_SPEECH: process.env.OCO_SAFETY_HATE_SPEECH,
+    OCO_SAFETY_SEXUALLY_EXPLICIT: process.env.OCO_SAFETY_SEXUALLY_EXPLICIT,
+    OCO_SAFETY_DANGEROUS_CONTENT: process.env.OCO_SAFETY_DANGEROUS_CONTENT,
+    OCO_REQUEST_TIMEOUT_MS: parseConfigVarValue(
+      process.env.OCO_REQUEST_TIMEOUT_MS
+    ),
+    OCO_STRUCTURED_OUTPUT: parseConfigVarValue(
+      process.env.OCO_STRUCTURED_OUTPUT
+    ),
+    OCO_FIXTURES_DIR: process.env.OCO_FIXTURES_DIR,
+    OCO_RECORD_FIXTURES: parseConfigVarValue(process.env.OCO_RECORD_FIXTURES),
+    OCO_CACHE: parseConfigVarValue(process.env.OCO_CACHE),
+    OCO_CACHE_TTL_MS: parseConfigVarValue(process.env.OCO_CACHE_TTL_MS),
+    OCO_CACHE_MAX_MB: parseConfigVarValue(process.env.OCO_CACHE_MAX_MB),
+    OCO_MODEL_PRICES: parseConfigVarValue(process.env.OCO_MODEL_PRICES),
+    OCO_MAX_CONCURRENT_REQUESTS: parseConfigVarValue(
+      process.env.OCO_MAX_CONCURRENT_REQUESTS
+    ),
+    OCO_REQUESTS_PER_MINUTE: parseConfigVarValue(
+      process.env.OCO_REQUESTS_PER_MINUTE
+    ),
+    OCO_SECRET_REDACTION: parseConfigVarValue(process.env.OCO_SECRET_REDACTION),
+    OCO_SECRET_PATTERNS: parseConfigVarValue(process.env.OCO_SECRET_PATTERNS),
+    OCO_GENERATED_GLOBS: process.env.OCO_GENERATED_GLOBS,
+    OCO_DIFF_CONDENSE: process.env.OCO_DIFF_CONDENSE,
+    OCO_DIFF_SYMBOLS: parseConfigVarValue(process.env.OCO_DIFF_SYMBOLS),
     OCO_GITPUSH: parseConfigVarValue(process.env.OCO_GITPUSH) // todo: deprecate
   };
 };
@@ -454,6 +958,28 @@ export const getConfig = ({
   return cleanConfig as ConfigType;
 };
 
+/**
+ * Registers the OCO_ENGINE_MODULE engine and lists the models of engines
+ * that discover them at runtime, so OCO_AI_PROVIDER and OCO_MODEL can be
+ * validated and described.
+ */
+export const prepareEngines = async (config: Record<string, any>) => {
+  if (config.OCO_ENGINE_MODULE) {
+    await loadEngineModule(config.OCO_ENGINE_MODULE);
+  }
+
+  const definition = getEngineDefinition(
+    config.OCO_AI_PROVIDER || OCO_AI_PROVIDER_ENUM.GEMINI
+  );
+
+  if (definition?.discoverModels) {
+    definition.models = await definition.discoverModels({
+      baseURL: config.OCO_API_URL,
+      apiKey: config.OCO_API_KEY
+    });
+  }
+};
+
 export const setConfig = (
   keyValues: [key: string, value: string | boolean | number | null][],
   globalConfigPath: string = defaultConfigPath
@@ -462,6 +988,9 @@ export const setConfig = (
 
   const configToSet = {};
 
+  // validators see values set in the same call, e.g. OCO_AI_PROVIDER with OCO_MODEL
+  const pendingConfig = { ...config };
+
   for (let [key, value] of keyValues) {
     if (!configValidators.hasOwnProperty(key)) {
       const supportedKeys = Object.keys(configValidators).join('\n');
@@ -481,10 +1010,11 @@ export const setConfig = (
 
     const validValue = configValidators[key as CONFIG_KEYS](
       parsedConfigValue,
-      config
+      pendingConfig
     );
 
     configToSet[key] = validValue;
+    pendingConfig[key] = validValue;
   }
 
   setGlobalConfig(mergeConfigs(configToSet, config), globalConfigPath);
@@ -498,12 +1028,18 @@ function getConfigKeyDetails(key) {
     case CONFIG_KEYS.OCO_MODEL:
       return {
         description: 'The AI model to use for generating commit messages',
-        values: MODEL_LIST
+        values: getModelList()
       };
     case CONFIG_KEYS.OCO_AI_PROVIDER:
       return {
         description: 'The AI provider to use',
-        values: Object.values(OCO_AI_PROVIDER_ENUM)
+        values: getEngineDefinitions().map(({ name }) => name)
+      };
+    case CONFIG_KEYS.OCO_ENGINE_MODULE:
+      return {
+        description:
+          'Path to a module exporting a custom engine definition, select it with OCO_AI_PROVIDER=<its name>',
+        values: ['Path to a .js or .mjs file']
       };
     case CONFIG_KEYS.OCO_PROMPT_MODULE:
       return {
@@ -567,14 +1103,212 @@ function getConfigKeyDetails(key) {
     case CONFIG_KEYS.OCO_API_URL:
       return {
         description:
-          'Custom API URL - may be used to set proxy path to OpenAI API',
+          'Custom API URL - base URL of the provider API, e.g. a corporate proxy in front of Gemini or http://localhost:8000/v1 for OpenAI-compatible gateways',
         values: ["URL string (must start with 'http://' or 'https://')"]
       };
+    case CONFIG_KEYS.OCO_API_CUSTOM_HEADERS:
+      return {
+        description: 'Additional HTTP headers sent with every API request',
+        values: ['JSON string, e.g. {"X-Gateway-Token": "secret"}']
+      };
     case CONFIG_KEYS.OCO_MESSAGE_TEMPLATE_PLACEHOLDER:
       return {
         description: 'Message template placeholder',
         values: ['String (must start with $)']
       };
+    case CONFIG_KEYS.OCO_RETRY_MAX_ATTEMPTS:
+      return {
+        description:
+          'How many times a request is attempted when the provider is rate limited or overloaded',
+        values: ['Any positive integer, 1 disables retrying']
+      };
+    case CONFIG_KEYS.OCO_RETRY_BASE_DELAY_MS:
+      return {
+        description:
+          'Delay before the first retry in milliseconds, doubled on every following retry unless the provider sends Retry-After',
+        values: ['Any non-negative integer']
+      };
+    case CONFIG_KEYS.OCO_RETRY_JITTER:
+      return {
+        description:
+          'Share of the retry delay that is randomized, so concurrent requests do not retry at once',
+        values: ['Number between 0 and 1']
+      };
+    case CONFIG_KEYS.OCO_CANDIDATES:
+      return {
+        description:
+          'Number of alternative commit messages to generate and pick from (default: 1).',
+        values: ['1 to 8']
+      };
+    case CONFIG_KEYS.OCO_MODEL_FALLBACKS:
+      return {
+        description:
+          'Comma-separated models to try in order when the current one is rate limited, overloaded, timing out or blocks the request. Prefix a model with its provider to switch providers, e.g. gemini-2.5-flash,ollama:llama3.',
+        values: ['Comma-separated models, optionally as <provider>:<model>']
+      };
+    case CONFIG_KEYS.OCO_TEMPERATURE:
+      return {
+        description:
+          'Sampling temperature, higher values give more varied messages (default: 0, 0.9 when generating several candidates).',
+        values: ['0 to 2']
+      };
+    case CONFIG_KEYS.OCO_TOP_P:
+      return {
+        description:
+          'Nucleus sampling, only tokens within this cumulative probability are considered (default: 0.1, 0.95 when generating several candidates).',
+        values: ['greater than 0 to 1']
+      };
+    case CONFIG_KEYS.OCO_TOP_K:
+      return {
+        description:
+          'Only sample from the K most likely tokens, unset by default. Sent to OpenAI-compatible gateways as top_k, which OpenAI itself rejects.',
+        values: ['positive integer']
+      };
+    case CONFIG_KEYS.OCO_STOP_SEQUENCES:
+      return {
+        description:
+          'Sequences that end the generated message, as a JSON array of up to 5 strings.',
+        values: ['JSON array of strings, e.g. ["\\n\\n"]']
+      };
+    case CONFIG_KEYS.OCO_SAFETY_HARASSMENT:
+      return {
+        description:
+          'Gemini safety threshold for harassment, BLOCK_LOW_AND_ABOVE (default) blocks the most, BLOCK_NONE turns the filter off.',
+        values: [
+          'BLOCK_NONE',
+          'BLOCK_ONLY_HIGH',
+          'BLOCK_MEDIUM_AND_ABOVE',
+          'BLOCK_LOW_AND_ABOVE'
+        ]
+      };
+    case CONFIG_KEYS.OCO_SAFETY_HATE_SPEECH:
+      return {
+        description:
+          'Gemini safety threshold for hate speech, BLOCK_LOW_AND_ABOVE (default) blocks the most, BLOCK_NONE turns the filter off.',
+        values: [
+          'BLOCK_NONE',
+          'BLOCK_ONLY_HIGH',
+          'BLOCK_MEDIUM_AND_ABOVE',
+          'BLOCK_LOW_AND_ABOVE'
+        ]
+      };
+    case CONFIG_KEYS.OCO_SAFETY_SEXUALLY_EXPLICIT:
+      return {
+        description:
+          'Gemini safety threshold for sexually explicit content, BLOCK_LOW_AND_ABOVE (default) blocks the most, BLOCK_NONE turns the filter off.',
+        values: [
+          'BLOCK_NONE',
+          'BLOCK_ONLY_HIGH',
+          'BLOCK_MEDIUM_AND_ABOVE',
+          'BLOCK_LOW_AND_ABOVE'
+        ]
+      };
+    case CONFIG_KEYS.OCO_SAFETY_DANGEROUS_CONTENT:
+      return {
+        description:
+          'Gemini safety threshold for dangerous content, BLOCK_LOW_AND_ABOVE (default) blocks the most, BLOCK_NONE turns the filter off.',
+        values: [
+          'BLOCK_NONE',
+          'BLOCK_ONLY_HIGH',
+          'BLOCK_MEDIUM_AND_ABOVE',
+          'BLOCK_LOW_AND_ABOVE'
+        ]
+      };
+    case CONFIG_KEYS.OCO_REQUEST_TIMEOUT_MS:
+      return {
+        description:
+          'Time limit of a single request to the AI provider in milliseconds, timed out requests are retried (default: 120000, 0 disables it).',
+        values: ['non-negative integer']
+      };
+    case CONFIG_KEYS.OCO_STRUCTURED_OUTPUT:
+      return {
+        description:
+          'Ask the model for a JSON object and render the commit message from it, honoring OCO_EMOJI, OCO_OMIT_SCOPE and OCO_ONE_LINE_COMMIT (default: false).',
+        values: ['true', 'false']
+      };
+    case CONFIG_KEYS.OCO_FIXTURES_DIR:
+      return {
+        description:
+          'Directory of recorded responses, served by OCO_AI_PROVIDER=replay and written with OCO_RECORD_FIXTURES=true.',
+        values: ['Path to a directory']
+      };
+    case CONFIG_KEYS.OCO_RECORD_FIXTURES:
+      return {
+        description:
+          'Write every response of the AI provider to OCO_FIXTURES_DIR, to be replayed with OCO_AI_PROVIDER=replay (default: false).',
+        values: ['true', 'false']
+      };
+    case CONFIG_KEYS.OCO_CACHE:
+      return {
+        description:
+          'Reuse the responses for the same model, prompt and diff from ~/.cache/opencommit, --no-cache skips them for a single run (default: true).',
+        values: ['true', 'false']
+      };
+    case CONFIG_KEYS.OCO_CACHE_TTL_MS:
+      return {
+        description:
+          'How long cached responses are reused in milliseconds (default: 86400000, one day).',
+        values: ['non-negative integer']
+      };
+    case CONFIG_KEYS.OCO_CACHE_MAX_MB:
+      return {
+        description:
+          'Size limit of the response cache in megabytes, the oldest responses are removed beyond it (default: 20).',
+        values: ['positive number']
+      };
+    case CONFIG_KEYS.OCO_MODEL_PRICES:
+      return {
+        description:
+          'USD prices per million input and output tokens by model, used by the usage summary and `oco usage`. Extends the built-in Gemini prices.',
+        values: ['{"gemini-2.5-flash": {"input": 0.3, "output": 2.5}}']
+      };
+    case CONFIG_KEYS.OCO_MAX_CONCURRENT_REQUESTS:
+      return {
+        description:
+          'How many requests are sent to the provider at the same time, e.g. for the parts of big diffs',
+        values: ['Any positive integer']
+      };
+    case CONFIG_KEYS.OCO_REQUESTS_PER_MINUTE:
+      return {
+        description:
+          "How many requests are started within a minute at most, to stay below the provider's rate limit",
+        values: ['Any non-negative integer, 0 disables the limit']
+      };
+    case CONFIG_KEYS.OCO_SECRET_REDACTION:
+      return {
+        description:
+          'What to do with secrets found in the diff: replace them with placeholders, cancel the run, or send the diff as is',
+        values: ['redact', 'abort', 'off']
+      };
+    case CONFIG_KEYS.OCO_SECRET_PATTERNS:
+      return {
+        description:
+          'Extra regular expressions of secrets to redact, by the name shown in the summary',
+        values: ['JSON object, e.g. {"internal token": "corp_[a-z0-9]{32}"}']
+      };
+    case CONFIG_KEYS.OCO_GENERATED_GLOBS:
+      return {
+        description:
+          'Files treated as generated in addition to lock files, bundles and compiled outputs: only their names are sent',
+        values: [
+          'Comma-separated .gitignore-style patterns, e.g. gen/,*.generated.ts'
+        ]
+      };
+    case CONFIG_KEYS.OCO_DIFF_CONDENSE:
+      return {
+        description:
+          'How the diff is shrunk before it is counted and sent: fewer context lines, whitespace-only hunks, pure renames, deleted files and big data file changes as one line each',
+        values: [
+          'Comma-separated list of context, whitespace, renames, deletions and data (default: all)',
+          'none'
+        ]
+      };
+    case CONFIG_KEYS.OCO_DIFF_SYMBOLS:
+      return {
+        description:
+          'Name the functions and classes every hunk changes, and list the ones added and removed per file, for TypeScript, JavaScript, Python and Go (default: true).',
+        values: ['true', 'false']
+      };
     case CONFIG_KEYS.OCO_HOOK_AUTO_UNCOMMENT:
       return {
         description: 'Automatically uncomment the commit message in the hook',
@@ -676,6 +1410,8 @@ export const configCommand = command(
       intro(`COMMAND: config ${mode} ${keyValues}`);
 
       if (mode === CONFIG_MODES.describe) {
+        await prepareEngines(getConfig());
+
         if (!keyValues || keyValues.length === 0) {
           printAllConfigHelp();
         } else {
@@ -696,9 +1432,16 @@ export const configCommand = command(
         if (!keyValues || keyValues.length === 0) {
           throw new Error('No config keys specified for set mode');
         }
-        await setConfig(
-          keyValues.map((keyValue) => keyValue.split('=') as [string, string])
+        const keyValuePairs = keyValues.map(
+          (keyValue) => keyValue.split('=') as [string, string]
         );
+
+        await prepareEngines({
+          ...getGlobalConfig(),
+          ...Object.fromEntries(keyValuePairs)
+        });
+
+        await setConfig(keyValuePairs);
       } else {
         throw new Error(
           `Unsupported mode: ${mode}. Valid modes are: "set", "get", and "describe"`
@@ -0,0 +1,58 @@
+import { intro, outro } from '@clack/prompts';
+import chalk from 'chalk';
+import { command } from 'cleye';
+import { existsSync, statSync } from 'fs';
+import { relative, resolve, sep } from 'path';
+import { getGitDir, getOpenCommitIgnore } from '../utils/git';
+import { IgnoreRule } from '../utils/openCommitIgnore';
+import { COMMANDS } from './ENUMS';
+
+export enum IGNORE_MODES {
+  check = 'check'
+}
+
+const formatRule = ({ source, line, pattern }: IgnoreRule) =>
+  `${source}:${line}: ${pattern}`;
+
+export const ignoreCommand = command(
+  {
+    name: COMMANDS.ignore,
+    parameters: ['<mode>', '<path>']
+  },
+  async (argv) => {
+    intro('opencommit — ignore rules');
+    try {
+      const { mode, path } = argv._;
+
+      if (mode !== IGNORE_MODES.check) {
+        throw new Error(`Unsupported mode: ${mode}. Valid modes are: "check"`);
+      }
+
+      // rules are relative to the repo root, directories end with a slash
+      const absolutePath = resolve(path);
+      const isDirectory =
+        existsSync(absolutePath) && statSync(absolutePath).isDirectory();
+      const file =
+        relative(await getGitDir(), absolutePath)
+          .split(sep)
+          .join('/') + (isDirectory ? '/' : '');
+
+      const rule = (await getOpenCommitIgnore()).explain(file);
+
+      if (!rule) {
+        outro(`${chalk.green('✔')} ${file} is not ignored, no rule matches it`);
+      } else if (rule.negated) {
+        outro(
+          `${chalk.green(
+            '✔'
+          )} ${file} is not ignored, it is re-included by ${formatRule(rule)}`
+        );
+      } else {
+        outro(`${chalk.red('✖')} ${file} is ignored by ${formatRule(rule)}`);
+      }
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${error}`);
+      process.exit(1);
+    }
+  }
+);
@@ -5,6 +5,13 @@ import { intro, outro, spinner } from '@clack/prompts';
 
 import { generateCommitMessageByDiff } from '../generateCommitMessageFromGitDiff';
 import { getChangedFiles, getDiff, getStagedFiles, gitAdd } from '../utils/git';
+import { getMissingRequiredConfigKeys } from '../utils/engine';
+import {
+  formatUsageSummary,
+  getModelPrices,
+  recordUsage,
+  UsageTracker
+} from '../utils/usage';
 import { getConfig } from './config';
 
 const [messageFilePath, commitSource] = process.argv.slice(2);
@@ -39,9 +46,11 @@ export const prepareCommitMessageHook = async (
 
     const config = getConfig();
 
-    if (!config.OCO_API_KEY) {
+    const missingKeys = getMissingRequiredConfigKeys(config);
+
+    if (missingKeys.length) {
       outro(
-        'No OCO_API_KEY is set. Set your key via `oco config set OCO_API_KEY=<value>. For more info see https://github.com/di-sukharev/opencommit'
+        `No ${missingKeys[0]} is set. Set it via \`oco config set ${missingKeys[0]}=<value>\`. For more info see https://github.com/di-sukharev/opencommit`
       );
       return;
     }
@@ -49,11 +58,27 @@ export const prepareCommitMessageHook = async (
     const spin = spinner();
     spin.start('Generating commit message');
 
+    const usageTracker = new UsageTracker();
     const commitMessage = await generateCommitMessageByDiff(
-      await getDiff({ files: staged })
+      await getDiff({ files: staged }),
+      false,
+      '',
+      undefined,
+      { onUsage: usageTracker.record }
     );
     spin.stop('Done');
 
+    const usage = usageTracker.getUsage();
+    if (usage.length) {
+      outro(
+        `📊 ${formatUsageSummary(
+          usage,
+          getModelPrices(config.OCO_MODEL_PRICES)
+        )}`
+      );
+      await recordUsage(usage);
+    }
+
     const fileContent = await fs.readFile(messageFilePath);
 
     const messageWithComment = `# ${commitMessage}\n\n# ---------- [OpenCommit] ---------- #\n# Remove the # above to use this generated commit message.\n# To cancel the commit, just close this window without making any changes.\n\n${fileContent.toString()}`;
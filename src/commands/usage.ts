@@ -0,0 +1,101 @@
+import { intro, outro } from '@clack/prompts';
+import chalk from 'chalk';
+import { command } from 'cleye';
+import {
+  formatCost,
+  formatTokens,
+  getModelPrices,
+  readUsage,
+  summarizeUsage,
+  USAGE_LEDGER_PATH,
+  UsageGrouping,
+  UsageRow
+} from '../utils/usage';
+import { getConfig } from './config';
+import { COMMANDS } from './ENUMS';
+
+const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'repo', 'model'];
+
+const formatTable = (by: UsageGrouping, rows: UsageRow[]) => {
+  const total = rows.reduce(
+    (sum, row) => ({
+      key: 'total',
+      requests: sum.requests + row.requests,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      outputTokens: sum.outputTokens + row.outputTokens,
+      cost: sum.cost + row.cost
+    }),
+    { key: 'total', requests: 0, promptTokens: 0, outputTokens: 0, cost: 0 }
+  );
+
+  const lines = [
+    [by, 'requests', 'input tokens', 'output tokens', 'cost'],
+    ...[...rows, total].map((row) => [
+      row.key,
+      formatTokens(row.requests),
+      formatTokens(row.promptTokens),
+      formatTokens(row.outputTokens),
+      formatCost(row.cost)
+    ])
+  ];
+
+  const widths = lines[0].map((_, column) =>
+    Math.max(...lines.map((line) => line[column].length))
+  );
+
+  return lines
+    .map((line) =>
+      line
+        .map((cell, column) =>
+          // the key is text, the other columns are numbers
+          column ? cell.padStart(widths[column]) : cell.padEnd(widths[column])
+        )
+        .join('  ')
+    )
+    .join('\n');
+};
+
+export const usageCommand = command(
+  {
+    name: COMMANDS.usage,
+    parameters: ['[by]']
+  },
+  async (argv) => {
+    intro('opencommit — token usage');
+    try {
+      const by = (argv._.by ?? 'day') as UsageGrouping;
+
+      if (!USAGE_GROUPINGS.includes(by)) {
+        throw new Error(
+          `Unsupported grouping: ${by}. Valid groupings are: "day", "repo" and "model"`
+        );
+      }
+
+      const entries = await readUsage();
+
+      if (!entries.length) {
+        outro(`No usage recorded yet in ${USAGE_LEDGER_PATH}`);
+        return;
+      }
+
+      const prices = getModelPrices(getConfig().OCO_MODEL_PRICES);
+      const unpricedModels = [
+        ...new Set(
+          entries.map(({ model }) => model).filter((model) => !prices[model])
+        )
+      ];
+
+      const table = formatTable(by, summarizeUsage(entries, by, prices));
+      const pricesNote = unpricedModels.length
+        ? `${chalk.yellow('!')} No price for ${unpricedModels.join(
+            ', '
+          )}, their cost is not included. Set it with OCO_MODEL_PRICES`
+        : `Prices in USD, set them with OCO_MODEL_PRICES`;
+
+      outro(`${table}\n\n${pricesNote}`);
+    } catch (error) {
+      outro(`${chalk.red('✖')} ${error}`);
+      process.exit(1);
+    }
+  }
+);
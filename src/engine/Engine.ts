@@ -1,4 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+import { AxiosInstance } from 'axios';
 
 export interface AiEngineConfig {
   apiKey: string;
@@ -7,19 +8,142 @@ export interface AiEngineConfig {
   maxTokensInput: number;
   baseURL?: string;
   customHeaders?: Record<string, string>;
+  /** sampling, unset values fall back to DEFAULT_SAMPLING */
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  /** Gemini block threshold per harm category, e.g. { HARASSMENT: 'BLOCK_NONE' } */
+  safetyThresholds?: Record<string, string>;
+  /** where the replay engine reads its fixtures from */
+  fixturesDir?: string;
 }
 
-export type Client = GoogleGenerativeAI;
+// null for engines without a provider SDK, e.g. replay
+export type Client = GoogleGenerativeAI | AxiosInstance | null;
+
+/**
+ * Near-deterministic sampling, the same diff should get the same message.
+ */
+export const DEFAULT_SAMPLING = { temperature: 0, topP: 0.1 };
+
+/**
+ * Sampling used for alternative candidates, the deterministic defaults
+ * would return the same message every time.
+ */
+export const CANDIDATES_SAMPLING = { temperature: 0.9, topP: 0.95 };
 
 export interface Message {
   role: 'user' | 'system' | 'assistant';
   content: string;
 }
 
+export interface TokenUsage {
+  /** the model that answered, fallbacks report their own */
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateOptions {
+  /** aborts the request, on timeout or when the user cancels */
+  signal?: AbortSignal;
+  /**
+   * asks for a JSON object instead of free text. Gemini constrains the reply
+   * to the schema, other engines only switch to JSON mode
+   */
+  responseSchema?: ResponseSchema;
+  /** skips cached responses, the new one is still cached */
+  noCache?: boolean;
+  /**
+   * replaces DEFAULT_SAMPLING, e.g. CANDIDATES_SAMPLING for repeated
+   * candidate requests. OCO_TEMPERATURE and OCO_TOP_P still win
+   */
+  sampling?: typeof DEFAULT_SAMPLING;
+  /** called once per answered request with the tokens the provider billed */
+  onUsage?: (usage: TokenUsage) => void;
+  /** called when a fallback model takes over the request, with its label */
+  onFallback?: (label: string) => void;
+}
+
 export interface AiEngine {
   config: AiEngineConfig;
   client: Client;
   generateCommitMessage(
-    messages: Array<Message>
+    messages: Array<Message>,
+    options?: GenerateOptions
   ): Promise<string | null | undefined>;
+  /**
+   * Same as generateCommitMessage, but calls `onChunk` with every piece of
+   * text as the model produces it. Engines without streaming leave it out.
+   */
+  generateCommitMessageStream?(
+    messages: Array<Message>,
+    onChunk: (chunk: string) => void,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined>;
+  /**
+   * Generates up to `count` alternative messages in one request, e.g. with
+   * Gemini's candidateCount. Callers fall back to repeated requests.
+   */
+  generateCommitMessageCandidates?(
+    messages: Array<Message>,
+    count: number,
+    options?: GenerateOptions
+  ): Promise<string[]>;
+}
+
+/**
+ * Counts tokens the way a model does, to fit diffs into OCO_TOKENS_MAX_INPUT.
+ */
+export interface Tokenizer {
+  /** counts locally, cheap enough to call for every line of a diff */
+  countTokens(content: string): number;
+  /** the model's own count, e.g. from the provider, falls back to countTokens */
+  countModelTokens(content: string): Promise<number>;
 }
+
+/**
+ * Describes an engine to the registry in ./registry.
+ * External engines loaded via OCO_ENGINE_MODULE default-export one of these.
+ */
+export interface EngineDefinition {
+  /** value of OCO_AI_PROVIDER selecting this engine */
+  name: string;
+  /** supported models, leave undefined to accept any model name */
+  models?: string[];
+  defaultModel?: string;
+  /** config keys that must be set, e.g. OCO_API_KEY */
+  requiredConfigKeys?: string[];
+  /** lists the models at runtime, e.g. from a local daemon */
+  discoverModels?(config: Partial<AiEngineConfig>): Promise<string[]>;
+  create(config: AiEngineConfig): AiEngine;
+  /** leave undefined to count with OpenAI's cl100k encoding */
+  createTokenizer?(config: AiEngineConfig): Tokenizer;
+}
+
+/**
+ * Candidates of an engine without generateCommitMessageCandidates, one
+ * request each with CANDIDATES_SAMPLING so the messages differ. Cached
+ * responses are skipped, every request would get the same one.
+ */
+export const requestCommitMessageCandidates = async (
+  engine: AiEngine,
+  messages: Array<Message>,
+  count: number,
+  options: GenerateOptions = {}
+): Promise<string[]> => {
+  const commitMessages = await Promise.all(
+    Array.from({ length: count }, () =>
+      engine.generateCommitMessage(messages, {
+        ...options,
+        sampling: CANDIDATES_SAMPLING,
+        noCache: true
+      })
+    )
+  );
+
+  return commitMessages.filter(
+    (commitMessage): commitMessage is string => !!commitMessage
+  );
+};
@@ -0,0 +1,146 @@
+import { computeHash } from '../modules/commitlint/crypto';
+import { ResponseCache } from '../utils/responseCache';
+import {
+  AiEngine,
+  AiEngineConfig,
+  Client,
+  GenerateOptions,
+  Message
+} from './Engine';
+
+// candidates are cached per count, asking for more should not return fewer
+type CacheOptions = GenerateOptions & { count?: number };
+
+/**
+ * Answers repeated requests from `cache`. The key covers the provider, its
+ * API URL, the model, the configured sampling and safety thresholds, the
+ * messages (so the prompt and the diff) and the requested output shape.
+ * Responses of fallback models are not cached, the key names the primary.
+ */
+export class CachingEngine implements AiEngine {
+  engine: AiEngine;
+  cache: ResponseCache;
+  provider?: string;
+  generateCommitMessageStream?: AiEngine['generateCommitMessageStream'];
+  generateCommitMessageCandidates?: AiEngine['generateCommitMessageCandidates'];
+
+  constructor(engine: AiEngine, cache: ResponseCache, provider?: string) {
+    this.engine = engine;
+    this.cache = cache;
+    this.provider = provider;
+
+    if (engine.generateCommitMessageStream) {
+      this.generateCommitMessageStream = (messages, onChunk, options) =>
+        this.withCache(
+          messages,
+          options,
+          (requestOptions) =>
+            engine.generateCommitMessageStream!(
+              messages,
+              onChunk,
+              requestOptions
+            ),
+          // a cached response shows up as a single chunk
+          { onHit: onChunk }
+        );
+    }
+
+    if (engine.generateCommitMessageCandidates) {
+      this.generateCommitMessageCandidates = async (messages, count, options) =>
+        (await this.withCache(
+          messages,
+          options,
+          (requestOptions) =>
+            engine.generateCommitMessageCandidates!(
+              messages,
+              count,
+              requestOptions
+            ),
+          { count }
+        )) ?? [];
+    }
+  }
+
+  get config(): AiEngineConfig {
+    return this.engine.config;
+  }
+
+  get client(): Client {
+    return this.engine.client;
+  }
+
+  private getKey(
+    messages: Array<Message>,
+    { responseSchema, count, sampling }: CacheOptions = {}
+  ): Promise<string> {
+    const {
+      baseURL,
+      model,
+      temperature,
+      topP,
+      topK,
+      stopSequences,
+      safetyThresholds
+    } = this.config;
+
+    return computeHash(
+      JSON.stringify({
+        provider: this.provider,
+        baseURL,
+        model,
+        temperature,
+        topP,
+        topK,
+        stopSequences,
+        safetyThresholds,
+        messages,
+        responseSchema,
+        count,
+        sampling
+      })
+    );
+  }
+
+  private async withCache<T extends string | string[]>(
+    messages: Array<Message>,
+    options: GenerateOptions | undefined,
+    request: (options: GenerateOptions) => Promise<T | null | undefined>,
+    { count, onHit }: { count?: number; onHit?: (cached: T) => void } = {}
+  ): Promise<T | null | undefined> {
+    const key = await this.getKey(messages, { ...options, count });
+
+    if (!options?.noCache) {
+      const cached = await this.cache.get<T>(key).catch(() => undefined);
+      if (cached?.length) {
+        onHit?.(cached);
+        return cached;
+      }
+    }
+
+    let fellBack = false;
+    const response = await request({
+      ...options,
+      onFallback: (label) => {
+        fellBack = true;
+        options?.onFallback?.(label);
+      }
+    });
+
+    // empty responses are worth another try next time, and a read-only or
+    // full disk must not fail the commit
+    if (response?.length && !fellBack) {
+      await this.cache.set(key, response).catch(() => undefined);
+    }
+
+    return response;
+  }
+
+  generateCommitMessage(
+    messages: Array<Message>,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined> {
+    return this.withCache(messages, options, (requestOptions) =>
+      this.engine.generateCommitMessage(messages, requestOptions)
+    );
+  }
+}
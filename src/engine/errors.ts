@@ -0,0 +1,184 @@
+import axios from 'axios';
+
+// request timeout, rate limits and transient server errors
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'EAI_AGAIN',
+  'EPIPE'
+];
+
+export class EngineError extends Error {
+  readonly retryable: boolean = false;
+  status?: number;
+  cause?: unknown;
+
+  constructor(message: string, options: { status?: number; cause?: unknown }) {
+    super(message);
+    this.name = this.constructor.name;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Rate limits, overloaded models and network hiccups: the same request may
+ * succeed later, after `retryAfterMs` if the provider said so.
+ */
+export class RetryableEngineError extends EngineError {
+  readonly retryable = true;
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; cause?: unknown; retryAfterMs?: number }
+  ) {
+    super(message, options);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The provider did not answer within OCO_REQUEST_TIMEOUT_MS.
+ */
+export class TimeoutEngineError extends RetryableEngineError {
+  constructor(timeoutMs: number, cause?: unknown) {
+    super(
+      `The request timed out after ${timeoutMs}ms, try again or raise OCO_REQUEST_TIMEOUT_MS`,
+      { cause }
+    );
+  }
+}
+
+/**
+ * The request was aborted by the caller, e.g. on Ctrl-C.
+ */
+export class CancelledEngineError extends EngineError {
+  constructor(cause?: unknown) {
+    super('The request was cancelled', { cause });
+  }
+}
+
+/**
+ * Bad keys, unknown models, invalid requests: retrying will not help.
+ */
+export class FatalEngineError extends EngineError {}
+
+/**
+ * The model refused to answer, e.g. Gemini's safety filters. Retrying the
+ * same model will not help, another one may answer.
+ */
+export class BlockedEngineError extends EngineError {}
+
+// finish reasons Gemini reports for candidates it withheld
+const BLOCKED_FINISH_REASONS = [
+  'SAFETY',
+  'RECITATION',
+  'BLOCKLIST',
+  'PROHIBITED_CONTENT',
+  'SPII'
+];
+
+/**
+ * Parses a Retry-After header: either delay-seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+};
+
+// Gemini reports the delay as google.rpc.RetryInfo, e.g. { retryDelay: '37s' }
+const getGeminiRetryDelay = (errorDetails: unknown): number | undefined => {
+  if (!Array.isArray(errorDetails)) return undefined;
+
+  const retryInfo = errorDetails.find((detail) =>
+    String(detail?.['@type']).endsWith('RetryInfo')
+  );
+  const delay = parseFloat(retryInfo?.retryDelay);
+
+  return isNaN(delay) ? undefined : delay * 1000;
+};
+
+const getResponseErrorMessage = (data: any): string | undefined => {
+  const error = data?.error;
+  if (typeof error === 'string') return error;
+  return error?.message;
+};
+
+/**
+ * Classifies anything thrown while calling a provider into a retryable or
+ * fatal EngineError, keeping the original error as `cause`.
+ * @param prefix - prepended to the message, e.g. 'Ollama provider error'
+ */
+export const toEngineError = (error: unknown, prefix?: string): EngineError => {
+  if (error instanceof EngineError) return error;
+
+  const withPrefix = (message: string) =>
+    prefix ? `${prefix}: ${message}` : message;
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const message = withPrefix(
+      getResponseErrorMessage(error.response?.data) ?? error.message
+    );
+
+    if (
+      (status && RETRYABLE_STATUSES.includes(status)) ||
+      (!status && RETRYABLE_NETWORK_CODES.includes(error.code ?? ''))
+    ) {
+      return new RetryableEngineError(message, {
+        status,
+        cause: error,
+        retryAfterMs: parseRetryAfter(error.response?.headers?.['retry-after'])
+      });
+    }
+
+    return new FatalEngineError(message, { status, cause: error });
+  }
+
+  const err = error as any;
+  const message = withPrefix(err?.message ?? String(error));
+
+  // @google/generative-ai fetch errors carry the HTTP status
+  if (typeof err?.status === 'number') {
+    if (RETRYABLE_STATUSES.includes(err.status)) {
+      return new RetryableEngineError(message, {
+        status: err.status,
+        cause: error,
+        retryAfterMs: getGeminiRetryDelay(err.errorDetails)
+      });
+    }
+
+    return new FatalEngineError(message, { status: err.status, cause: error });
+  }
+
+  // @google/generative-ai response errors carry the blocked response
+  if (
+    err?.response?.promptFeedback?.blockReason ||
+    BLOCKED_FINISH_REASONS.includes(
+      err?.response?.candidates?.[0]?.finishReason
+    )
+  ) {
+    return new BlockedEngineError(message, { cause: error });
+  }
+
+  // undici throws TypeError('fetch failed') on network failures
+  if (
+    RETRYABLE_NETWORK_CODES.includes(err?.code ?? err?.cause?.code) ||
+    /fetch failed/.test(message)
+  ) {
+    return new RetryableEngineError(message, { cause: error });
+  }
+
+  return new FatalEngineError(message, { cause: error });
+};
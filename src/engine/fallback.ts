@@ -0,0 +1,162 @@
+import {
+  AiEngine,
+  AiEngineConfig,
+  Client,
+  GenerateOptions,
+  Message,
+  requestCommitMessageCandidates
+} from './Engine';
+import { BlockedEngineError, EngineError, toEngineError } from './errors';
+import { getEngineDefinition } from './registry';
+
+export interface ModelReference {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Parses an OCO_MODEL_FALLBACKS entry, either `model` of the default
+ * provider or `provider:model`. Ollama tags like `llama3:8b` stay models
+ * since `llama3` is no registered provider.
+ */
+export const parseModelReference = (
+  value: string,
+  defaultProvider: string
+): ModelReference => {
+  const separator = value.indexOf(':');
+
+  if (separator > 0) {
+    const provider = value.slice(0, separator);
+    if (getEngineDefinition(provider)) {
+      return { provider, model: value.slice(separator + 1) };
+    }
+  }
+
+  return { provider: defaultProvider, model: value };
+};
+
+export const parseModelFallbacks = (
+  value: string | undefined,
+  defaultProvider: string
+): ModelReference[] =>
+  (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => parseModelReference(entry, defaultProvider));
+
+export interface FallbackEngineEntry {
+  /** how the model is reported, e.g. `gemini-2.5-flash` or `ollama:llama3` */
+  label: string;
+  engine: AiEngine;
+}
+
+export interface EngineFallback {
+  from: string;
+  to: string;
+  error: EngineError;
+}
+
+// quota, timeouts and overloaded models are retryable, safety blocks are not
+// but another model may still answer
+const shouldFallBack = (error: EngineError) =>
+  error.retryable || error instanceof BlockedEngineError;
+
+/**
+ * Tries the engines in order until one produces a message. Each engine is
+ * expected to have exhausted its own retries before the next one is asked.
+ */
+export class FallbackEngine implements AiEngine {
+  entries: FallbackEngineEntry[];
+  onFallback?: (fallback: EngineFallback) => void;
+
+  constructor(
+    entries: FallbackEngineEntry[],
+    onFallback?: (fallback: EngineFallback) => void
+  ) {
+    this.entries = entries;
+    this.onFallback = onFallback;
+  }
+
+  get config(): AiEngineConfig {
+    return this.entries[0].engine.config;
+  }
+
+  get client(): Client {
+    return this.entries[0].engine.client;
+  }
+
+  private async withFallback<T>(
+    request: (engine: AiEngine) => Promise<T>,
+    options?: GenerateOptions,
+    canFallBack: () => boolean = () => true
+  ): Promise<T> {
+    for (let i = 0; ; i++) {
+      const { label, engine } = this.entries[i];
+
+      try {
+        return await request(engine);
+      } catch (error) {
+        const engineError = toEngineError(error);
+        const next = this.entries[i + 1];
+
+        if (!next || !shouldFallBack(engineError) || !canFallBack()) {
+          throw engineError;
+        }
+
+        this.onFallback?.({ from: label, to: next.label, error: engineError });
+        options?.onFallback?.(next.label);
+      }
+    }
+  }
+
+  generateCommitMessage(
+    messages: Array<Message>,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined> {
+    return this.withFallback(
+      (engine) => engine.generateCommitMessage(messages, options),
+      options
+    );
+  }
+
+  generateCommitMessageStream(
+    messages: Array<Message>,
+    onChunk: (chunk: string) => void,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined> {
+    let hasStreamed = false;
+
+    return this.withFallback(
+      (engine) =>
+        engine.generateCommitMessageStream
+          ? engine.generateCommitMessageStream(
+              messages,
+              (chunk) => {
+                hasStreamed = true;
+                onChunk(chunk);
+              },
+              options
+            )
+          : engine.generateCommitMessage(messages, options),
+      options,
+      // another model would start the preview over
+      () => !hasStreamed
+    );
+  }
+
+  generateCommitMessageCandidates(
+    messages: Array<Message>,
+    count: number,
+    options?: GenerateOptions
+  ): Promise<string[]> {
+    // engines without candidates get one sampled request per message
+    return this.withFallback(
+      (engine) =>
+        engine.generateCommitMessageCandidates
+          ? engine.generateCommitMessageCandidates(messages, count, options)
+          : requestCommitMessageCandidates(engine, messages, count, options),
+      options
+    );
+  }
+}
@@ -1,31 +1,130 @@
 import {
+  GenerateContentRequest,
+  GenerationConfig,
+  GenerativeModel,
   GoogleGenerativeAI,
   HarmCategory,
-  HarmBlockThreshold
+  HarmBlockThreshold,
+  RequestOptions,
+  ResponseSchema,
+  UsageMetadata
 } from '@google/generative-ai';
-import axios from 'axios';
+import { configureFetchProxy } from '../utils/proxy';
 import { removeContentTags } from '../utils/removeContentTags';
-import { AiEngine, AiEngineConfig, Message } from './Engine';
+import { estimateTokenCount } from '../utils/tokenCount';
+import {
+  AiEngine,
+  AiEngineConfig,
+  CANDIDATES_SAMPLING,
+  DEFAULT_SAMPLING,
+  EngineDefinition,
+  GenerateOptions,
+  Message,
+  Tokenizer,
+  TokenUsage
+} from './Engine';
+import { toEngineError } from './errors';
+
+interface GeminiConfig extends AiEngineConfig {}
+
+const GEMINI_DEFAULT_URL = 'https://generativelanguage.googleapis.com';
+
+const getResponseFormat = (responseSchema?: ResponseSchema): GenerationConfig =>
+  responseSchema
+    ? { responseMimeType: 'application/json', responseSchema }
+    : {};
+
+// 2.5 models bill their thinking as output, the SDK types predate it
+const toTokenUsage = (
+  model: string,
+  usage: UsageMetadata & { thoughtsTokenCount?: number }
+): TokenUsage => ({
+  model,
+  promptTokens: usage.promptTokenCount ?? 0,
+  outputTokens:
+    (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
+});
+
+const getRequestOptions = (config: GeminiConfig): RequestOptions => {
+  const baseUrl = (config.baseURL || GEMINI_DEFAULT_URL).replace(/\/+$/, '');
+
+  configureFetchProxy(baseUrl);
+
+  return {
+    baseUrl,
+    customHeaders: config.customHeaders
+  };
+};
+
+// counting must not hold up the request, the estimate will do
+const COUNT_TOKENS_TIMEOUT_MS = 10_000;
+
+/**
+ * Counts with the countTokens API, Gemini's tokenizer is not available
+ * locally. Diffs are split with the estimate.
+ */
+export class GeminiTokenizer implements Tokenizer {
+  model: GenerativeModel;
+  private counts = new Map<string, Promise<number>>();
+
+  constructor(config: GeminiConfig) {
+    this.model = new GoogleGenerativeAI(config.apiKey).getGenerativeModel(
+      { model: config.model },
+      getRequestOptions(config)
+    );
+  }
+
+  countTokens(content: string): number {
+    return estimateTokenCount(content);
+  }
 
-interface GeminiConfig extends AiEngineConfig { }
+  // the prompt and the diff are counted again for every request kind
+  countModelTokens(content: string): Promise<number> {
+    if (!this.counts.has(content)) {
+      this.counts.set(
+        content,
+        this.model
+          .countTokens(content, { timeout: COUNT_TOKENS_TIMEOUT_MS })
+          .then(({ totalTokens }) => totalTokens)
+          .catch(() => this.countTokens(content))
+      );
+    }
+
+    return this.counts.get(content)!;
+  }
+}
 
 export class GeminiEngine implements AiEngine {
   config: GeminiConfig;
   client: GoogleGenerativeAI;
+  requestOptions: RequestOptions;
 
   constructor(config: GeminiConfig) {
     this.client = new GoogleGenerativeAI(config.apiKey);
     this.config = config;
+    this.requestOptions = getRequestOptions(config);
   }
 
-  async generateCommitMessage(
-    messages: Array<Message>
-  ): Promise<string | undefined> {
+  private getModel(messages: Array<Message>) {
     const systemInstruction = messages
       .filter((m) => m.role === 'system')
       .map((m) => m.content)
       .join('\n');
 
+    return this.client.getGenerativeModel(
+      {
+        model: this.config.model,
+        systemInstruction: systemInstruction ? systemInstruction : undefined
+      },
+      this.requestOptions
+    );
+  }
+
+  private getRequest(
+    messages: Array<Message>,
+    generationConfig: GenerationConfig = {},
+    sampling = DEFAULT_SAMPLING
+  ): GenerateContentRequest {
     const contents = messages
       .filter((m) => m.role !== 'system')
       .map((m) => ({
@@ -33,55 +132,133 @@ export class GeminiEngine implements AiEngine {
         parts: [{ text: m.content }]
       }));
 
+    return {
+      contents,
+      generationConfig: {
+        maxOutputTokens: this.config.maxTokensOutput,
+        temperature: this.config.temperature ?? sampling.temperature,
+        topP: this.config.topP ?? sampling.topP,
+        topK: this.config.topK,
+        stopSequences: this.config.stopSequences,
+        ...generationConfig
+      },
+      safetySettings: [
+        HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+        HarmCategory.HARM_CATEGORY_HARASSMENT,
+        HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+        HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT
+      ].map((category) => ({
+        category,
+        // config keys drop the prefix, e.g. OCO_SAFETY_HARASSMENT
+        threshold: (this.config.safetyThresholds?.[
+          category.replace('HARM_CATEGORY_', '')
+        ] ?? HarmBlockThreshold.BLOCK_LOW_AND_ABOVE) as HarmBlockThreshold
+      }))
+    };
+  }
+
+  async generateCommitMessage(
+    messages: Array<Message>,
+    { signal, responseSchema, onUsage, sampling }: GenerateOptions = {}
+  ): Promise<string | undefined> {
     try {
-      const model = this.client.getGenerativeModel({
-        model: this.config.model,
-        systemInstruction: systemInstruction ? systemInstruction : undefined
-      });
-
-      const result = await model.generateContent({
-        contents,
-        generationConfig: {
-          maxOutputTokens: this.config.maxTokensOutput,
-          temperature: 0,
-          topP: 0.1
-        },
-        safetySettings: [
-          {
-            category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-            threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-            threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-            threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE
-          },
-          {
-            category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-            threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE
-          }
-        ]
-      });
+      const result = await this.getModel(messages).generateContent(
+        this.getRequest(messages, getResponseFormat(responseSchema), sampling),
+        { signal }
+      );
 
       const response = await result.response;
+      if (response.usageMetadata) {
+        onUsage?.(toTokenUsage(this.config.model, response.usageMetadata));
+      }
       const content = response.text();
 
       if (!content) return undefined;
       return removeContentTags(content, 'think');
     } catch (error) {
-      const err = error as Error;
-      if (
-        axios.isAxiosError<{ error?: { message: string } }>(error) &&
-        error.response?.status === 401
-      ) {
-        const geminiError = error.response.data.error;
-        if (geminiError) throw new Error(geminiError?.message);
+      throw toEngineError(error);
+    }
+  }
+
+  async generateCommitMessageCandidates(
+    messages: Array<Message>,
+    count: number,
+    {
+      signal,
+      responseSchema,
+      onUsage,
+      sampling = CANDIDATES_SAMPLING
+    }: GenerateOptions = {}
+  ): Promise<string[]> {
+    try {
+      const result = await this.getModel(messages).generateContent(
+        this.getRequest(
+          messages,
+          { ...getResponseFormat(responseSchema), candidateCount: count },
+          sampling
+        ),
+        { signal }
+      );
+
+      const response = await result.response;
+      if (response.usageMetadata) {
+        onUsage?.(toTokenUsage(this.config.model, response.usageMetadata));
       }
 
-      throw err;
+      return (response.candidates ?? [])
+        .map(({ content }) =>
+          (content?.parts ?? []).map((part) => part.text ?? '').join('')
+        )
+        .filter(Boolean)
+        .map((content) => removeContentTags(content, 'think'));
+    } catch (error) {
+      throw toEngineError(error);
+    }
+  }
+
+  async generateCommitMessageStream(
+    messages: Array<Message>,
+    onChunk: (chunk: string) => void,
+    { signal, responseSchema, onUsage, sampling }: GenerateOptions = {}
+  ): Promise<string | undefined> {
+    try {
+      const result = await this.getModel(messages).generateContentStream(
+        this.getRequest(messages, getResponseFormat(responseSchema), sampling),
+        { signal }
+      );
+
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) onChunk(text);
+      }
+
+      const response = await result.response;
+      if (response.usageMetadata) {
+        onUsage?.(toTokenUsage(this.config.model, response.usageMetadata));
+      }
+      const content = response.text();
+
+      if (!content) return undefined;
+      return removeContentTags(content, 'think');
+    } catch (error) {
+      throw toEngineError(error);
     }
   }
 }
+
+export const geminiEngineDefinition: EngineDefinition = {
+  name: 'gemini',
+  models: [
+    'gemini-3-flash',
+    'gemini-2.5-pro',
+    'gemini-2.5-flash',
+    'gemini-2.5-flash-lite',
+    'gemini-1.5-pro',
+    'gemini-1.5-flash'
+  ],
+  // gemini-2.5-flash is widely available and performant
+  defaultModel: 'gemini-2.5-flash',
+  requiredConfigKeys: ['OCO_API_KEY'],
+  create: (config) => new GeminiEngine(config),
+  createTokenizer: (config) => new GeminiTokenizer(config)
+};
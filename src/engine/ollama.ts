@@ -0,0 +1,125 @@
+import axios, { AxiosInstance } from 'axios';
+import { removeContentTags } from '../utils/removeContentTags';
+import {
+  AiEngine,
+  AiEngineConfig,
+  DEFAULT_SAMPLING,
+  EngineDefinition,
+  GenerateOptions,
+  Message
+} from './Engine';
+import { toEngineError } from './errors';
+
+interface OllamaConfig extends AiEngineConfig {}
+
+export const OLLAMA_DEFAULT_URL = 'http://localhost:11434';
+
+const getOllamaBaseURL = (baseURL?: string) =>
+  (baseURL || OLLAMA_DEFAULT_URL).replace(/\/+$/, '');
+
+/**
+ * Lists the models pulled into the local Ollama daemon via `/api/tags`.
+ * Resolves to an empty list when the daemon is not reachable.
+ */
+export const fetchOllamaModels = async (
+  baseURL?: string
+): Promise<string[]> => {
+  try {
+    const { data } = await axios.get<{ models?: { name: string }[] }>(
+      `${getOllamaBaseURL(baseURL)}/api/tags`,
+      { timeout: 3000 }
+    );
+
+    return (data.models ?? []).map((model) => model.name);
+  } catch (error) {
+    return [];
+  }
+};
+
+export class OllamaEngine implements AiEngine {
+  config: OllamaConfig;
+  client: AxiosInstance;
+
+  constructor(config: OllamaConfig) {
+    this.config = config;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    if (config.customHeaders) Object.assign(headers, config.customHeaders);
+
+    this.client = axios.create({
+      baseURL: getOllamaBaseURL(config.baseURL),
+      headers
+    });
+  }
+
+  async generateCommitMessage(
+    messages: Array<Message>,
+    {
+      signal,
+      responseSchema,
+      onUsage,
+      sampling = DEFAULT_SAMPLING
+    }: GenerateOptions = {}
+  ): Promise<string | undefined> {
+    const params = {
+      model: this.config.model,
+      messages,
+      options: {
+        temperature: this.config.temperature ?? sampling.temperature,
+        top_p: this.config.topP ?? sampling.topP,
+        top_k: this.config.topK,
+        stop: this.config.stopSequences,
+        num_predict: this.config.maxTokensOutput,
+        // Ollama truncates the prompt to 2048 tokens unless told otherwise
+        num_ctx: this.config.maxTokensInput
+      },
+      // older Ollama versions only know plain JSON mode
+      ...(responseSchema && { format: 'json' }),
+      stream: false
+    };
+
+    try {
+      const response = await this.client.post('/api/chat', params, {
+        signal
+      });
+
+      // local models cost nothing, the counts still tell the prompt size
+      if (response.data?.prompt_eval_count !== undefined) {
+        onUsage?.({
+          model: this.config.model,
+          promptTokens: response.data.prompt_eval_count,
+          outputTokens: response.data.eval_count ?? 0
+        });
+      }
+
+      const content = response.data?.message?.content;
+
+      if (!content) return undefined;
+      return removeContentTags(content, 'think');
+    } catch (error) {
+      throw toEngineError(error, 'Ollama provider error');
+    }
+  }
+}
+
+export const ollamaEngineDefinition: EngineDefinition = {
+  name: 'ollama',
+  // filled by discoverModels() before OCO_MODEL is validated
+  models: [],
+  // the model the README has users pull
+  defaultModel: 'llama3',
+  discoverModels: async (config) => {
+    const models = await fetchOllamaModels(config.baseURL);
+
+    // `ollama run llama3` resolves to the llama3:latest tag
+    const aliases = models
+      .filter((model) => model.endsWith(':latest'))
+      .map((model) => model.slice(0, -':latest'.length));
+
+    return [...models, ...aliases];
+  },
+  create: (config) => new OllamaEngine(config)
+};
@@ -0,0 +1,117 @@
+import axios, { AxiosInstance } from 'axios';
+import { removeContentTags } from '../utils/removeContentTags';
+import {
+  AiEngine,
+  AiEngineConfig,
+  CANDIDATES_SAMPLING,
+  DEFAULT_SAMPLING,
+  EngineDefinition,
+  GenerateOptions,
+  Message
+} from './Engine';
+import { toEngineError } from './errors';
+
+interface OpenAiCompatibleConfig extends AiEngineConfig {}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+export class OpenAiCompatibleEngine implements AiEngine {
+  config: OpenAiCompatibleConfig;
+  client: AxiosInstance;
+
+  constructor(config: OpenAiCompatibleConfig) {
+    this.config = config;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    // local gateways (vLLM, LocalAI) usually run without auth
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    if (config.customHeaders) Object.assign(headers, config.customHeaders);
+
+    this.client = axios.create({
+      baseURL: (config.baseURL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+      headers
+    });
+  }
+
+  private async createChatCompletion(
+    messages: Array<Message>,
+    params: Record<string, unknown>,
+    {
+      signal,
+      responseSchema,
+      onUsage,
+      sampling = DEFAULT_SAMPLING
+    }: GenerateOptions
+  ): Promise<string[]> {
+    try {
+      const response = await this.client.post(
+        '/chat/completions',
+        {
+          model: this.config.model,
+          messages,
+          max_tokens: this.config.maxTokensOutput,
+          temperature: this.config.temperature ?? sampling.temperature,
+          top_p: this.config.topP ?? sampling.topP,
+          // not part of the OpenAI API, only sent when configured
+          ...(this.config.topK && { top_k: this.config.topK }),
+          ...(this.config.stopSequences?.length && {
+            stop: this.config.stopSequences
+          }),
+          stream: false,
+          // JSON mode is more widely supported than json_schema, the
+          // prompt describes the object
+          ...(responseSchema && { response_format: { type: 'json_object' } }),
+          ...params
+        },
+        { signal }
+      );
+
+      const usage = response.data?.usage;
+      if (usage) {
+        onUsage?.({
+          model: this.config.model,
+          promptTokens: usage.prompt_tokens ?? 0,
+          outputTokens: usage.completion_tokens ?? 0
+        });
+      }
+
+      return (response.data?.choices ?? [])
+        .map((choice: any) => choice?.message?.content)
+        .filter(Boolean)
+        .map((content: string) => removeContentTags(content, 'think'));
+    } catch (error) {
+      throw toEngineError(error, 'OpenAI-compatible provider error');
+    }
+  }
+
+  async generateCommitMessage(
+    messages: Array<Message>,
+    options: GenerateOptions = {}
+  ): Promise<string | undefined> {
+    const [content] = await this.createChatCompletion(messages, {}, options);
+    return content;
+  }
+
+  async generateCommitMessageCandidates(
+    messages: Array<Message>,
+    count: number,
+    options: GenerateOptions = {}
+  ): Promise<string[]> {
+    return this.createChatCompletion(
+      messages,
+      { n: count },
+      { sampling: CANDIDATES_SAMPLING, ...options }
+    );
+  }
+}
+
+export const openAiCompatibleEngineDefinition: EngineDefinition = {
+  name: 'openai-compatible',
+  // gateways serve whatever models they were deployed with
+  models: undefined,
+  create: (config) => new OpenAiCompatibleEngine(config)
+};
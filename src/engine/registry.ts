@@ -0,0 +1,64 @@
+import { resolve as pathResolve } from 'path';
+import { pathToFileURL } from 'url';
+import { EngineDefinition } from './Engine';
+import { geminiEngineDefinition } from './gemini';
+import { ollamaEngineDefinition } from './ollama';
+import { openAiCompatibleEngineDefinition } from './openAiCompatible';
+import { replayEngineDefinition } from './replay';
+
+const engines = new Map<string, EngineDefinition>();
+
+export const registerEngine = (definition: EngineDefinition) => {
+  engines.set(definition.name, definition);
+};
+
+export const getEngineDefinition = (
+  name: string
+): EngineDefinition | undefined => engines.get(name);
+
+export const getEngineDefinitions = (): EngineDefinition[] =>
+  Array.from(engines.values());
+
+[
+  geminiEngineDefinition,
+  openAiCompatibleEngineDefinition,
+  ollamaEngineDefinition,
+  replayEngineDefinition
+].forEach(registerEngine);
+
+const isEngineDefinition = (value: any): value is EngineDefinition =>
+  typeof value?.name === 'string' &&
+  value.name.length > 0 &&
+  typeof value.create === 'function';
+
+/**
+ * Imports a third-party engine and registers it under its `name`.
+ * The module default-exports (or exports as `engine`) an EngineDefinition,
+ * relative paths are resolved against the current working directory.
+ */
+export const loadEngineModule = async (
+  modulePath: string
+): Promise<EngineDefinition> => {
+  const moduleURL = pathToFileURL(pathResolve(process.cwd(), modulePath)).href;
+
+  let engineModule;
+  try {
+    engineModule = await import(moduleURL);
+  } catch (error) {
+    throw new Error(
+      `Failed to load engine module ${modulePath}: ${(error as Error).message}`
+    );
+  }
+
+  const definition = engineModule.default ?? engineModule.engine;
+
+  if (!isEngineDefinition(definition)) {
+    throw new Error(
+      `Engine module ${modulePath} must export an engine definition with a "name" and a "create" function`
+    );
+  }
+
+  registerEngine(definition);
+
+  return definition;
+};
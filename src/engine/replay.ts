@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import { join, resolve as pathResolve } from 'path';
+import { computeHash } from '../modules/commitlint/crypto';
+import {
+  AiEngine,
+  AiEngineConfig,
+  Client,
+  EngineDefinition,
+  GenerateOptions,
+  Message
+} from './Engine';
+import { FatalEngineError } from './errors';
+
+export interface Fixture {
+  /** the request, kept to tell fixtures apart when reviewing them */
+  messages: Array<Message>;
+  response: string | null | undefined;
+}
+
+/**
+ * Fixtures are named by the hash of the request, any change to the prompt
+ * or the diff needs a new recording.
+ */
+export const getFixturePath = async (
+  fixturesDir: string,
+  messages: Array<Message>
+): Promise<string> =>
+  join(
+    pathResolve(fixturesDir),
+    `${await computeHash(JSON.stringify(messages))}.json`
+  );
+
+/**
+ * Answers from the fixtures in `config.fixturesDir` instead of a provider,
+ * for tests and demos without network or API keys.
+ */
+export class ReplayEngine implements AiEngine {
+  config: AiEngineConfig;
+  client: Client = null;
+
+  constructor(config: AiEngineConfig) {
+    this.config = config;
+  }
+
+  async generateCommitMessage(
+    messages: Array<Message>
+  ): Promise<string | null | undefined> {
+    const fixturePath = await getFixturePath(
+      this.config.fixturesDir!,
+      messages
+    );
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(fixturePath, 'utf8'));
+    } catch (error) {
+      throw new FatalEngineError(
+        `No fixture for this request at ${fixturePath}, record it with OCO_RECORD_FIXTURES=true and a real provider`,
+        { cause: error }
+      );
+    }
+
+    return fixture.response;
+  }
+}
+
+/**
+ * Passes requests on to `engine` and writes every response as a fixture
+ * the ReplayEngine serves later.
+ */
+export class RecordingEngine implements AiEngine {
+  engine: AiEngine;
+  fixturesDir: string;
+  generateCommitMessageStream?: AiEngine['generateCommitMessageStream'];
+  generateCommitMessageCandidates?: AiEngine['generateCommitMessageCandidates'];
+
+  constructor(engine: AiEngine, fixturesDir: string) {
+    this.engine = engine;
+    this.fixturesDir = fixturesDir;
+
+    if (engine.generateCommitMessageStream) {
+      this.generateCommitMessageStream = async (messages, onChunk, options) =>
+        this.record(
+          messages,
+          await engine.generateCommitMessageStream!(messages, onChunk, options)
+        );
+    }
+
+    // a fixture holds one response, replaying the request returns the first
+    if (engine.generateCommitMessageCandidates) {
+      this.generateCommitMessageCandidates = async (
+        messages,
+        count,
+        options
+      ) => {
+        const candidates = await engine.generateCommitMessageCandidates!(
+          messages,
+          count,
+          options
+        );
+        await this.record(messages, candidates[0]);
+        return candidates;
+      };
+    }
+  }
+
+  get config(): AiEngineConfig {
+    return this.engine.config;
+  }
+
+  get client(): Client {
+    return this.engine.client;
+  }
+
+  private async record(
+    messages: Array<Message>,
+    response: string | null | undefined
+  ) {
+    const fixture: Fixture = { messages, response };
+
+    await fs.mkdir(pathResolve(this.fixturesDir), { recursive: true });
+    await fs.writeFile(
+      await getFixturePath(this.fixturesDir, messages),
+      JSON.stringify(fixture, null, 2) + '\n'
+    );
+
+    return response;
+  }
+
+  async generateCommitMessage(
+    messages: Array<Message>,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined> {
+    return this.record(
+      messages,
+      await this.engine.generateCommitMessage(messages, options)
+    );
+  }
+}
+
+export const replayEngineDefinition: EngineDefinition = {
+  name: 'replay',
+  // fixtures answer for whatever model recorded them
+  models: undefined,
+  requiredConfigKeys: ['OCO_FIXTURES_DIR'],
+  create: (config) => new ReplayEngine(config)
+};
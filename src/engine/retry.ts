@@ -0,0 +1,180 @@
+import { abortable, createTimeoutSignal } from '../utils/abort';
+import { sleep } from '../utils/sleep';
+import {
+  AiEngine,
+  AiEngineConfig,
+  Client,
+  GenerateOptions,
+  Message
+} from './Engine';
+import {
+  CancelledEngineError,
+  FatalEngineError,
+  RetryableEngineError,
+  TimeoutEngineError,
+  toEngineError
+} from './errors';
+
+export interface RetryPolicy {
+  /** total number of attempts, 1 disables retrying */
+  maxAttempts: number;
+  /** delay before the first retry, doubled on every following one */
+  baseDelayMs: number;
+  /** share of the delay randomized to spread concurrent retries, 0 to 1 */
+  jitter: number;
+  /** time limit of every attempt, 0 or unset disables it */
+  timeoutMs?: number;
+}
+
+// upper bound for backoff and Retry-After alike, the run must finish eventually
+export const MAX_RETRY_DELAY_MS = 120_000;
+
+export const getRetryDelay = (
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number => {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+
+  const backoff = policy.baseDelayMs * 2 ** (attempt - 1);
+  const jittered = backoff * (1 - policy.jitter + random() * policy.jitter);
+
+  return Math.min(Math.round(jittered), MAX_RETRY_DELAY_MS);
+};
+
+/**
+ * Runs `request` until it succeeds, fails with a fatal error, or runs out
+ * of attempts. Every attempt gets a signal aborting after `policy.timeoutMs`
+ * or with `signal`. Errors are rethrown as classified EngineErrors.
+ * @param canRetry - checked before retrying, e.g. false once output was shown
+ */
+export const withRetry = async <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  policy: RetryPolicy,
+  wait: (ms: number) => Promise<unknown> = sleep,
+  signal?: AbortSignal,
+  canRetry: () => boolean = () => true
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const timeout = createTimeoutSignal(policy.timeoutMs ?? 0, signal);
+
+    try {
+      return await abortable(request(timeout.signal), timeout.signal);
+    } catch (error) {
+      const engineError = signal?.aborted
+        ? new CancelledEngineError(error)
+        : timeout.isTimedOut()
+        ? new TimeoutEngineError(policy.timeoutMs!, error)
+        : toEngineError(error);
+
+      if (!engineError.retryable || attempt >= policy.maxAttempts) {
+        throw engineError;
+      }
+
+      if (!canRetry()) {
+        throw new FatalEngineError(engineError.message, {
+          status: engineError.status,
+          cause: engineError
+        });
+      }
+
+      const retryAfterMs =
+        engineError instanceof RetryableEngineError
+          ? engineError.retryAfterMs
+          : undefined;
+
+      try {
+        await abortable(
+          wait(getRetryDelay(policy, attempt, retryAfterMs)),
+          signal
+        );
+      } catch (error) {
+        throw new CancelledEngineError(error);
+      }
+    } finally {
+      timeout.clear();
+    }
+  }
+};
+
+export class RetryingEngine implements AiEngine {
+  engine: AiEngine;
+  policy: RetryPolicy;
+  generateCommitMessageStream?: AiEngine['generateCommitMessageStream'];
+  generateCommitMessageCandidates?: AiEngine['generateCommitMessageCandidates'];
+
+  constructor(engine: AiEngine, policy: RetryPolicy) {
+    this.engine = engine;
+    this.policy = policy;
+
+    // expose optional capabilities only when the wrapped engine has them,
+    // callers fall back to generateCommitMessage otherwise
+    if (engine.generateCommitMessageStream) {
+      this.generateCommitMessageStream = (messages, onChunk, options) =>
+        this.streamWithRetry(messages, onChunk, options);
+    }
+
+    if (engine.generateCommitMessageCandidates) {
+      this.generateCommitMessageCandidates = (messages, count, options) =>
+        withRetry(
+          (signal) =>
+            engine.generateCommitMessageCandidates!(messages, count, {
+              ...options,
+              signal
+            }),
+          this.policy,
+          sleep,
+          options?.signal
+        );
+    }
+  }
+
+  get config(): AiEngineConfig {
+    return this.engine.config;
+  }
+
+  get client(): Client {
+    return this.engine.client;
+  }
+
+  generateCommitMessage(
+    messages: Array<Message>,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined> {
+    return withRetry(
+      (signal) =>
+        this.engine.generateCommitMessage(messages, { ...options, signal }),
+      this.policy,
+      sleep,
+      options?.signal
+    );
+  }
+
+  private streamWithRetry(
+    messages: Array<Message>,
+    onChunk: (chunk: string) => void,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined> {
+    let hasStreamed = false;
+
+    return withRetry(
+      (signal) =>
+        this.engine.generateCommitMessageStream!(
+          messages,
+          (chunk) => {
+            hasStreamed = true;
+            onChunk(chunk);
+          },
+          { ...options, signal }
+        ),
+      this.policy,
+      sleep,
+      options?.signal,
+      // the chunks are already out, a retry would repeat them
+      () => !hasStreamed
+    );
+  }
+}
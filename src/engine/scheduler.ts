@@ -0,0 +1,172 @@
+import {
+  AiEngine,
+  AiEngineConfig,
+  Client,
+  GenerateOptions,
+  Message
+} from './Engine';
+import { CancelledEngineError, EngineError } from './errors';
+
+export interface SchedulerLimits {
+  /** requests in flight at the same time */
+  concurrency: number;
+  /** requests started within any minute, 0 disables the limit */
+  requestsPerMinute: number;
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Starts requests in the order they were scheduled, keeping at most
+ * `concurrency` of them in flight and `requestsPerMinute` started within
+ * any sliding minute.
+ */
+export class RequestScheduler {
+  limits: SchedulerLimits;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  // start times within the last minute, oldest first
+  private starts: number[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(limits: SchedulerLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Runs `task` once a slot is free. Rejects with `signal.reason` when
+   * `signal` aborts before that, the task is not started then.
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((waiter) => waiter !== start);
+        if (!this.queue.length) this.clearTimer();
+        reject(signal!.reason);
+      };
+
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(start);
+      this.drain();
+    });
+  }
+
+  private getRateLimitDelay(now: number): number {
+    const { requestsPerMinute } = this.limits;
+    if (requestsPerMinute <= 0) return 0;
+
+    this.starts = this.starts.filter((start) => start > now - MINUTE_MS);
+    if (this.starts.length < requestsPerMinute) return 0;
+
+    return this.starts[0] + MINUTE_MS - now;
+  }
+
+  private drain() {
+    while (this.queue.length && this.active < this.limits.concurrency) {
+      const now = Date.now();
+      const delay = this.getRateLimitDelay(now);
+
+      if (delay > 0) {
+        this.timer ??= setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, delay);
+        return;
+      }
+
+      this.active++;
+      this.starts.push(now);
+      this.queue.shift()!();
+    }
+  }
+
+  private clearTimer() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+}
+
+/**
+ * Sends every request through `scheduler`. Wraps the retrying engines, so a
+ * request keeps its slot while it is retried and a cancelled one never
+ * reaches the provider.
+ */
+export class SchedulingEngine implements AiEngine {
+  engine: AiEngine;
+  scheduler: RequestScheduler;
+  generateCommitMessageStream?: AiEngine['generateCommitMessageStream'];
+  generateCommitMessageCandidates?: AiEngine['generateCommitMessageCandidates'];
+
+  constructor(engine: AiEngine, scheduler: RequestScheduler) {
+    this.engine = engine;
+    this.scheduler = scheduler;
+
+    if (engine.generateCommitMessageStream) {
+      this.generateCommitMessageStream = (messages, onChunk, options) =>
+        this.schedule(
+          () => engine.generateCommitMessageStream!(messages, onChunk, options),
+          options
+        );
+    }
+
+    if (engine.generateCommitMessageCandidates) {
+      this.generateCommitMessageCandidates = (messages, count, options) =>
+        this.schedule(
+          () =>
+            engine.generateCommitMessageCandidates!(messages, count, options),
+          options
+        );
+    }
+  }
+
+  get config(): AiEngineConfig {
+    return this.engine.config;
+  }
+
+  get client(): Client {
+    return this.engine.client;
+  }
+
+  private async schedule<T>(
+    request: () => Promise<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    try {
+      return await this.scheduler.schedule(request, options?.signal);
+    } catch (error) {
+      // aborted while waiting for a slot, not by the request itself
+      if (options?.signal?.aborted && !(error instanceof EngineError)) {
+        throw new CancelledEngineError(error);
+      }
+      throw error;
+    }
+  }
+
+  generateCommitMessage(
+    messages: Array<Message>,
+    options?: GenerateOptions
+  ): Promise<string | null | undefined> {
+    return this.schedule(
+      () => this.engine.generateCommitMessage(messages, options),
+      options
+    );
+  }
+}
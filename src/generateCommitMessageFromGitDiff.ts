@@ -1,9 +1,24 @@
 import { DEFAULT_TOKEN_LIMITS, getConfig } from './commands/config';
-import { Message } from './engine/Engine';
-import { getMainCommitPrompt } from './prompts';
-import { getEngine } from './utils/engine';
+import {
+  GenerateOptions,
+  Message,
+  requestCommitMessageCandidates,
+  Tokenizer
+} from './engine/Engine';
+import { formatStructuredCommit } from './modules/structured/format';
+import {
+  parseStructuredCommit,
+  STRUCTURED_COMMIT_RESPONSE_SCHEMA
+} from './modules/structured/schema';
+import {
+  getDiffNotesPrompt,
+  getDiffSummaryPrompt,
+  getMainCommitPrompt,
+  getRefinePrompt
+} from './prompts';
+import { getEngine, getTokenizer } from './utils/engine';
 import { mergeDiffs } from './utils/mergeDiffs';
-import { tokenCount } from './utils/tokenCount';
+import { calibrateTokenCount } from './utils/tokenCount';
 
 const config = getConfig();
 const MAX_TOKENS_INPUT = config.OCO_TOKENS_MAX_INPUT;
@@ -38,41 +53,122 @@ export enum GenerateCommitMessageErrorEnum {
 
 const ADJUSTMENT_FACTOR = 20;
 
+// counted in one go, plus 4 tokens of role markup per message
+const countMessagesTokens = async (
+  tokenizer: Tokenizer,
+  messages: Array<Message>
+) =>
+  (await tokenizer.countModelTokens(
+    messages.map((msg) => msg.content).join('\n')
+  )) +
+  messages.length * 4;
+
+const getMaxRequestTokens = async (
+  tokenizer: Tokenizer,
+  fullGitMojiSpec: boolean,
+  context: string
+) => {
+  const INIT_MESSAGES_PROMPT = await getMainCommitPrompt(
+    fullGitMojiSpec,
+    context
+  );
+
+  const INIT_MESSAGES_PROMPT_LENGTH = await countMessagesTokens(
+    tokenizer,
+    INIT_MESSAGES_PROMPT
+  );
+
+  return (
+    MAX_TOKENS_INPUT -
+    ADJUSTMENT_FACTOR -
+    INIT_MESSAGES_PROMPT_LENGTH -
+    MAX_TOKENS_OUTPUT
+  );
+};
+
+const getGenerateOptions = (options: GenerateOptions): GenerateOptions =>
+  config.OCO_STRUCTURED_OUTPUT
+    ? { ...options, responseSchema: STRUCTURED_COMMIT_RESPONSE_SCHEMA }
+    : options;
+
+// in structured mode the engine replies with JSON, rendered here
+const toCommitMessage = <T extends string | null | undefined>(reply: T) =>
+  config.OCO_STRUCTURED_OUTPUT && reply
+    ? formatStructuredCommit(parseStructuredCommit(reply), {
+        emoji: config.OCO_EMOJI,
+        omitScope: config.OCO_OMIT_SCOPE,
+        oneLineCommit: config.OCO_ONE_LINE_COMMIT
+      })
+    : reply;
+
+const generateMessage = async (
+  messages: Array<Message>,
+  options: GenerateOptions
+) => {
+  const engine = getEngine();
+  return toCommitMessage(
+    await engine.generateCommitMessage(messages, getGenerateOptions(options))
+  );
+};
+
+const requestCommitMessage = async (
+  messages: Array<Message>,
+  onChunk: ((chunk: string) => void) | undefined,
+  options: GenerateOptions
+): Promise<string> => {
+  const engine = getEngine();
+  // a half-written JSON object makes no preview
+  const commitMessage =
+    onChunk &&
+    engine.generateCommitMessageStream &&
+    !config.OCO_STRUCTURED_OUTPUT
+      ? await engine.generateCommitMessageStream(messages, onChunk, options)
+      : await generateMessage(messages, options);
+
+  if (!commitMessage)
+    throw new Error(GenerateCommitMessageErrorEnum.emptyMessage);
+
+  return commitMessage;
+};
+
+/**
+ * Diffs too large for a single request are summarized part by part into
+ * notes, a final request writes the commit message from all notes.
+ * @param onChunk - receives the message while it is generated, by the final
+ * request for large diffs
+ * @param options - `signal` cancels all requests still in flight
+ */
 export const generateCommitMessageByDiff = async (
   diff: string,
   fullGitMojiSpec: boolean = false,
-  context: string = ''
+  context: string = '',
+  onChunk?: (chunk: string) => void,
+  options: GenerateOptions = {}
 ): Promise<string> => {
   try {
-    const INIT_MESSAGES_PROMPT = await getMainCommitPrompt(
+    const tokenizer = getTokenizer();
+    const MAX_REQUEST_TOKENS = await getMaxRequestTokens(
+      tokenizer,
       fullGitMojiSpec,
       context
     );
+    const DIFF_TOKENS = await tokenizer.countModelTokens(diff);
 
-    const INIT_MESSAGES_PROMPT_LENGTH = INIT_MESSAGES_PROMPT.map(
-      (msg) => tokenCount(msg.content as string) + 4
-    ).reduce((a, b) => a + b, 0);
-
-    const MAX_REQUEST_TOKENS =
-      MAX_TOKENS_INPUT -
-      ADJUSTMENT_FACTOR -
-      INIT_MESSAGES_PROMPT_LENGTH -
-      MAX_TOKENS_OUTPUT;
-
-    if (tokenCount(diff) >= MAX_REQUEST_TOKENS) {
-      const commitMessagePromises = await getCommitMsgsPromisesFromFileDiffs(
+    if (DIFF_TOKENS >= MAX_REQUEST_TOKENS) {
+      const notes = await summarizeDiff(
         diff,
         MAX_REQUEST_TOKENS,
-        fullGitMojiSpec
+        // the parts are counted locally, scaled to the model's count
+        calibrateTokenCount(tokenizer.countTokens, diff, DIFF_TOKENS),
+        options
       );
 
-      const commitMessages = [] as string[];
-      for (const promise of commitMessagePromises) {
-        commitMessages.push((await promise) as string);
-        await delay(2000);
-      }
+      const messages = [
+        ...(await getMainCommitPrompt(fullGitMojiSpec, context)),
+        getDiffNotesPrompt(notes)
+      ];
 
-      return commitMessages.join('\n\n');
+      return await requestCommitMessage(messages, onChunk, options);
     }
 
     const messages = await generateCommitMessageChatCompletionPrompt(
@@ -81,85 +177,278 @@ export const generateCommitMessageByDiff = async (
       context
     );
 
-    const engine = getEngine();
-    const commitMessage = await engine.generateCommitMessage(messages);
-
-    if (!commitMessage)
-      throw new Error(GenerateCommitMessageErrorEnum.emptyMessage);
-
-    return commitMessage;
+    return await requestCommitMessage(messages, onChunk, options);
   } catch (error) {
     throw error;
   }
 };
 
-function getMessagesPromisesByChangesInFile(
+const summarizeDiffPart = async (
+  part: string,
+  options: GenerateOptions
+): Promise<string> => {
+  const notes = await getEngine().generateCommitMessage(
+    [getDiffSummaryPrompt(), { role: 'user', content: part }],
+    options
+  );
+
+  if (!notes) throw new Error(GenerateCommitMessageErrorEnum.emptyMessage);
+
+  return notes;
+};
+
+/**
+ * Condenses the parts of an oversized diff into notes that fit into one
+ * request of `maxTokens` together, summarizing notes again if need be.
+ */
+const summarizeDiff = async (
+  diff: string,
+  maxTokens: number,
+  countTokens: (content: string) => number,
+  options: GenerateOptions
+): Promise<string[]> => {
+  const { signal } = options;
+
+  // without one of the parts the notes are incomplete, the first failure
+  // cancels the remaining requests
+  const partsController = new AbortController();
+  const cancelParts = () => partsController.abort(signal?.reason);
+  signal?.addEventListener('abort', cancelParts, { once: true });
+
+  // the request scheduler paces the parts, see OCO_MAX_CONCURRENT_REQUESTS
+  // and OCO_REQUESTS_PER_MINUTE
+  const summarize = (parts: string[]) =>
+    Promise.all(
+      parts.map((part) =>
+        summarizeDiffPart(part, {
+          ...options,
+          signal: partsController.signal
+        }).catch((error) => {
+          partsController.abort(error);
+          throw error;
+        })
+      )
+    );
+
+  try {
+    let notes = await summarize(getDiffParts(diff, maxTokens, countTokens));
+
+    // the notes on a huge diff may not fit at once either
+    while (notes.length > 1 && countTokens(notes.join('\n\n')) >= maxTokens) {
+      const groups = mergeDiffs(
+        notes.map((note) => `${note}\n\n`),
+        maxTokens,
+        countTokens
+      );
+
+      // every note takes a request of its own, merging gets no further
+      if (groups.length >= notes.length) break;
+
+      notes = await summarize(groups);
+    }
+
+    return notes;
+  } finally {
+    signal?.removeEventListener('abort', cancelParts);
+  }
+};
+
+export interface CommitMessageRevision {
+  /** the message the user gave feedback on */
+  commitMessage: string;
+  feedback: string;
+}
+
+/**
+ * Asks the model to revise its last message instead of starting over. All
+ * revisions are sent as conversation turns, so earlier feedback still holds.
+ */
+export const refineCommitMessageByDiff = async (
+  diff: string,
+  revisions: CommitMessageRevision[],
+  fullGitMojiSpec: boolean = false,
+  context: string = '',
+  onChunk?: (chunk: string) => void,
+  options: GenerateOptions = {}
+): Promise<string> => {
+  const revisionMessages = revisions.flatMap(
+    ({ commitMessage, feedback }): Array<Message> => [
+      { role: 'assistant', content: commitMessage },
+      getRefinePrompt(feedback)
+    ]
+  );
+
+  const tokenizer = getTokenizer();
+  const REVISIONS_LENGTH = await countMessagesTokens(
+    tokenizer,
+    revisionMessages
+  );
+
+  const MAX_REQUEST_TOKENS =
+    (await getMaxRequestTokens(tokenizer, fullGitMojiSpec, context)) -
+    REVISIONS_LENGTH;
+
+  // messages of oversized diffs were merged from chunks, the revision only
+  // gets to see which files changed
+  const requestDiff =
+    (await tokenizer.countModelTokens(diff)) < MAX_REQUEST_TOKENS
+      ? diff
+      : diff
+          .split('\n')
+          .filter((line) => line.startsWith('diff --git '))
+          .join('\n');
+
+  const messages = await generateCommitMessageChatCompletionPrompt(
+    requestDiff,
+    fullGitMojiSpec,
+    context
+  );
+
+  return requestCommitMessage(
+    [...messages, ...revisionMessages],
+    onChunk,
+    options
+  );
+};
+
+/**
+ * Generates up to `count` distinct alternatives to pick from. Diffs too big
+ * for a single request are summarized chunk by chunk, which yields one.
+ */
+export const generateCommitMessageCandidatesByDiff = async (
+  diff: string,
+  count: number,
+  fullGitMojiSpec: boolean = false,
+  context: string = '',
+  options: GenerateOptions = {}
+): Promise<string[]> => {
+  const tokenizer = getTokenizer();
+  const MAX_REQUEST_TOKENS = await getMaxRequestTokens(
+    tokenizer,
+    fullGitMojiSpec,
+    context
+  );
+
+  if (
+    count <= 1 ||
+    (await tokenizer.countModelTokens(diff)) >= MAX_REQUEST_TOKENS
+  ) {
+    return [
+      await generateCommitMessageByDiff(
+        diff,
+        fullGitMojiSpec,
+        context,
+        undefined,
+        options
+      )
+    ];
+  }
+
+  const messages = await generateCommitMessageChatCompletionPrompt(
+    diff,
+    fullGitMojiSpec,
+    context
+  );
+
+  const engine = getEngine();
+  const commitMessages = engine.generateCommitMessageCandidates
+    ? await engine.generateCommitMessageCandidates(
+        messages,
+        count,
+        getGenerateOptions(options)
+      )
+    : await requestCommitMessageCandidates(
+        engine,
+        messages,
+        count,
+        getGenerateOptions(options)
+      );
+
+  const candidates = [
+    ...new Set(
+      commitMessages
+        .map((commitMessage) => toCommitMessage(commitMessage)?.trim())
+        .filter((commitMessage): commitMessage is string => !!commitMessage)
+    )
+  ];
+
+  if (!candidates.length)
+    throw new Error(GenerateCommitMessageErrorEnum.emptyMessage);
+
+  return candidates;
+};
+
+function getFileDiffParts(
   fileDiff: string,
-  separator: string,
   maxChangeLength: number,
-  fullGitMojiSpec: boolean
+  countTokens: (content: string) => number
 ) {
   const hunkHeaderSeparator = '@@ ';
   const [fileHeader, ...fileDiffByLines] = fileDiff.split(hunkHeaderSeparator);
 
+  // e.g. preprocessed notebooks, without hunks to split by
+  if (!fileDiffByLines.length) {
+    return splitDiff(fileDiff, maxChangeLength, countTokens);
+  }
+
   // merge multiple line-diffs into 1 to save tokens
   const mergedChanges = mergeDiffs(
     fileDiffByLines.map((line) => hunkHeaderSeparator + line),
-    maxChangeLength
+    maxChangeLength,
+    countTokens
   );
 
   const lineDiffsWithHeader = [] as string[];
   for (const change of mergedChanges) {
     const totalChange = fileHeader + change;
-    if (tokenCount(totalChange) > maxChangeLength) {
+    if (countTokens(totalChange) > maxChangeLength) {
       // If the totalChange is too large, split it into smaller pieces
-      const splitChanges = splitDiff(totalChange, maxChangeLength);
+      const splitChanges = splitDiff(totalChange, maxChangeLength, countTokens);
       lineDiffsWithHeader.push(...splitChanges);
     } else {
       lineDiffsWithHeader.push(totalChange);
     }
   }
 
-  const engine = getEngine();
-  const commitMsgsFromFileLineDiffs = lineDiffsWithHeader.map(
-    async (lineDiff) => {
-      const messages = await generateCommitMessageChatCompletionPrompt(
-        separator + lineDiff,
-        fullGitMojiSpec
-      );
-
-      return engine.generateCommitMessage(messages);
-    }
-  );
-
-  return commitMsgsFromFileLineDiffs;
+  return lineDiffsWithHeader;
 }
 
-function splitDiff(diff: string, maxChangeLength: number) {
+function splitDiff(
+  diff: string,
+  maxChangeLength: number,
+  countTokens: (content: string) => number
+) {
   const lines = diff.split('\n');
   const splitDiffs = [] as string[];
   let currentDiff = '';
+  // kept up to date line by line instead of recounting currentDiff
+  let currentTokens = 0;
 
   if (maxChangeLength <= 0) {
     throw new Error(GenerateCommitMessageErrorEnum.outputTokensTooHigh);
   }
 
   for (let line of lines) {
+    let lineTokens = countTokens(line);
+
     // If a single line exceeds maxChangeLength, split it into multiple lines
-    while (tokenCount(line) > maxChangeLength) {
+    while (lineTokens > maxChangeLength) {
       const subLine = line.substring(0, maxChangeLength);
       line = line.substring(maxChangeLength);
+      lineTokens = countTokens(line);
       splitDiffs.push(subLine);
     }
 
-    // Check the tokenCount of the currentDiff and the line separately
-    if (tokenCount(currentDiff) + tokenCount('\n' + line) > maxChangeLength) {
+    // the newline joining the line adds at most one token
+    if (currentTokens + lineTokens + 1 > maxChangeLength) {
       // If adding the next line would exceed the maxChangeLength, start a new diff
       splitDiffs.push(currentDiff);
       currentDiff = line;
+      currentTokens = lineTokens;
     } else {
       // Otherwise, add the line to the current diff
       currentDiff += '\n' + line;
+      currentTokens += lineTokens + 1;
     }
   }
 
@@ -171,45 +460,30 @@ function splitDiff(diff: string, maxChangeLength: number) {
   return splitDiffs;
 }
 
-export const getCommitMsgsPromisesFromFileDiffs = async (
+/**
+ * Splits a diff into parts of at most `maxDiffLength` tokens: small files
+ * are merged into one part, large ones split by hunks, then by lines.
+ */
+export const getDiffParts = (
   diff: string,
   maxDiffLength: number,
-  fullGitMojiSpec: boolean
-) => {
+  countTokens: (content: string) => number
+): string[] => {
   const separator = 'diff --git ';
 
-  const diffByFiles = diff.split(separator).slice(1);
+  // every file keeps its header, merged parts are sent as they are
+  const diffByFiles = diff
+    .split(separator)
+    .slice(1)
+    .map((fileDiff) => separator + fileDiff);
 
   // merge multiple files-diffs into 1 prompt to save tokens
-  const mergedFilesDiffs = mergeDiffs(diffByFiles, maxDiffLength);
-
-  const commitMessagePromises = [] as Promise<string | null | undefined>[];
-
-  for (const fileDiff of mergedFilesDiffs) {
-    if (tokenCount(fileDiff) >= maxDiffLength) {
-      // if file-diff is bigger than gpt context — split fileDiff into lineDiff
-      const messagesPromises = getMessagesPromisesByChangesInFile(
-        fileDiff,
-        separator,
-        maxDiffLength,
-        fullGitMojiSpec
-      );
-
-      commitMessagePromises.push(...messagesPromises);
-    } else {
-      const messages = await generateCommitMessageChatCompletionPrompt(
-        separator + fileDiff,
-        fullGitMojiSpec
-      );
+  const mergedFilesDiffs = mergeDiffs(diffByFiles, maxDiffLength, countTokens);
 
-      const engine = getEngine();
-      commitMessagePromises.push(engine.generateCommitMessage(messages));
-    }
-  }
-
-  return commitMessagePromises;
+  return mergedFilesDiffs.flatMap((fileDiff) =>
+    countTokens(fileDiff) >= maxDiffLength
+      ? // if file-diff is bigger than gpt context — split fileDiff into lineDiff
+        getFileDiffParts(fileDiff, maxDiffLength, countTokens)
+      : [fileDiff]
+  );
 };
-
-function delay(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
@@ -4,9 +4,18 @@ import github from '@actions/github';
 import { intro, outro } from '@clack/prompts';
 import { PushEvent } from '@octokit/webhooks-types';
 import { unlinkSync, writeFileSync } from 'fs';
+import { getConfig } from './commands/config';
 import { generateCommitMessageByDiff } from './generateCommitMessageFromGitDiff';
-import { randomIntFromInterval } from './utils/randomIntFromInterval';
-import { sleep } from './utils/sleep';
+import { condenseDiff, parseCondenseStrategies } from './utils/condenseDiff';
+import {
+  getRequestScheduler,
+  loadExternalEngine,
+  onEngineFallback
+} from './utils/engine';
+import {
+  formatRedactionSummary,
+  redactDiffSecrets
+} from './utils/redactSecrets';
 
 // This should be a token with access to your repository scoped in as a secret.
 // The YML workflow will need to set GITHUB_TOKEN with the GitHub Secret Token
@@ -33,7 +42,19 @@ async function getCommitDiff(commitSha: string) {
       }
     }
   );
-  return { sha: commitSha, diff: diffResponse.data };
+
+  const { diff, redactions } = redactDiffSecrets(
+    condenseDiff(
+      diffResponse.data,
+      parseCondenseStrategies(getConfig().OCO_DIFF_CONDENSE)
+    )
+  );
+
+  if (redactions.length) {
+    outro(`🔒 ${commitSha}: ${formatRedactionSummary(redactions)}`);
+  }
+
+  return { sha: commitSha, diff };
 }
 
 interface DiffAndSHA {
@@ -46,58 +67,30 @@ interface MsgAndSHA {
   msg: string;
 }
 
-// send only 3-4 size chunks of diffs in steps,
-// because openAI restricts "too many requests" at once with 429 error
-async function improveMessagesInChunks(diffsAndSHAs: DiffAndSHA[]) {
-  const chunkSize = diffsAndSHAs!.length % 2 === 0 ? 4 : 3;
-  outro(`Improving commit messages in chunks of ${chunkSize}.`);
-  const improvePromises = diffsAndSHAs!.map((commit) =>
-    generateCommitMessageByDiff(commit.diff, false)
+// all commits are improved at once, the shared request scheduler keeps them
+// within OCO_MAX_CONCURRENT_REQUESTS and OCO_REQUESTS_PER_MINUTE,
+// 429s and overloaded models are retried by the engine (see OCO_RETRY_*)
+async function improveMessagesInChunks(
+  diffsAndSHAs: DiffAndSHA[]
+): Promise<MsgAndSHA[]> {
+  const { concurrency, requestsPerMinute } = getRequestScheduler().limits;
+  outro(
+    `Improving commit messages, ${concurrency} requests at a time${
+      requestsPerMinute ? ` and ${requestsPerMinute} per minute` : ''
+    }.`
   );
 
-  let improvedMessagesAndSHAs: MsgAndSHA[] = [];
-  for (let step = 0; step < improvePromises.length; step += chunkSize) {
-    const chunkOfPromises = improvePromises.slice(step, step + chunkSize);
+  let improvedCount = 0;
 
-    try {
-      const chunkOfImprovedMessages = await Promise.all(chunkOfPromises);
+  return Promise.all(
+    diffsAndSHAs.map(async ({ sha, diff }) => {
+      const msg = await generateCommitMessageByDiff(diff, false);
 
-      const chunkOfImprovedMessagesBySha = chunkOfImprovedMessages.map(
-        (improvedMsg, i) => {
-          const index = improvedMessagesAndSHAs.length;
-          const sha = diffsAndSHAs![index + i].sha;
+      outro(`Improved ${++improvedCount} of ${diffsAndSHAs.length} messages.`);
 
-          return { sha, msg: improvedMsg };
-        }
-      );
-
-      improvedMessagesAndSHAs.push(...chunkOfImprovedMessagesBySha);
-
-      // sometimes openAI errors with 429 code (too many requests),
-      // so lets sleep a bit
-      const sleepFor =
-        1000 * randomIntFromInterval(1, 5) + 100 * randomIntFromInterval(1, 5);
-
-      outro(
-        `Improved ${chunkOfPromises.length} messages. Sleeping for ${sleepFor}`
-      );
-
-      await sleep(sleepFor);
-    } catch (error) {
-      outro(error as string);
-
-      // if sleeping in try block still fails with 429,
-      // openAI wants at least 1 minute before next request
-      const sleepFor = 60000 + 1000 * randomIntFromInterval(1, 5);
-      outro(`Retrying after sleeping for ${sleepFor}`);
-      await sleep(sleepFor);
-
-      // go to previous step
-      step -= chunkSize;
-    }
-  }
-
-  return improvedMessagesAndSHAs;
+      return { sha, msg };
+    })
+  );
 }
 
 const getDiffsBySHAs = async (SHAs: string[]) => {
@@ -194,6 +187,12 @@ async function run() {
   intro('OpenCommit — improving lame commit messages');
 
   try {
+    await loadExternalEngine();
+
+    onEngineFallback(({ from, to, error }) =>
+      core.warning(`${from} failed, fell back to ${to}: ${error.message}`)
+    );
+
     if (github.context.eventName === 'push') {
       outro(`Processing commits in a Push event`);
 
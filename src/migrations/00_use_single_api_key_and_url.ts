@@ -16,7 +16,8 @@ export default function () {
   if (aiProvider === OCO_AI_PROVIDER_ENUM.GEMINI) {
     apiKey = config['OCO_GEMINI_API_KEY'];
     apiUrl = config['OCO_GEMINI_BASE_PATH'];
-  } else {
+    // providers added since never had keys of their own, nothing to migrate
+  } else if (!aiProvider) {
     throw new Error(
       `Migration failed, set AI provider first. Run "oco config set OCO_AI_PROVIDER=<provider>", where <provider> is one of: ${Object.values(
         OCO_AI_PROVIDER_ENUM
@@ -0,0 +1,54 @@
+import { removeConventionalCommitWord } from '../../utils/removeConventionalCommitWord';
+import { StructuredCommit } from './schema';
+
+// GitMoji of each conventional commit type, types without one stay as they are
+const GITMOJI_BY_TYPE: Record<string, string> = {
+  feat: '✨',
+  fix: '🐛',
+  docs: '📝',
+  test: '✅',
+  refactor: '♻️',
+  perf: '⚡️',
+  style: '🎨',
+  build: '📦️',
+  ci: '👷',
+  chore: '🔧',
+  revert: '⏪️'
+};
+
+export interface StructuredCommitFormat {
+  /** OCO_EMOJI */
+  emoji: boolean;
+  /** OCO_OMIT_SCOPE */
+  omitScope: boolean;
+  /** OCO_ONE_LINE_COMMIT */
+  oneLineCommit: boolean;
+}
+
+/**
+ * Renders a structured commit into the final message, the same commit
+ * always renders the same way.
+ */
+export const formatStructuredCommit = (
+  commit: StructuredCommit,
+  { emoji, omitScope, oneLineCommit }: StructuredCommitFormat
+): string => {
+  const type = commit.type.toLowerCase();
+  const scope = !omitScope && commit.scope ? `(${commit.scope})` : '';
+  let header = `${type}${scope}${commit.breaking ? '!' : ''}: ${
+    commit.subject
+  }`;
+
+  // same shape as the consistency examples of the free text prompt
+  if (emoji && GITMOJI_BY_TYPE[type]) {
+    header = `${GITMOJI_BY_TYPE[type]} ${removeConventionalCommitWord(header)}`;
+  }
+
+  if (oneLineCommit) return header;
+
+  const footers = commit.footers
+    .map(({ token, value }) => `${token}: ${value.trim()}`)
+    .join('\n');
+
+  return [header, commit.body, footers].filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,94 @@
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+import { z } from 'zod';
+
+export const structuredCommitSchema = z.object({
+  type: z.string().trim().min(1),
+  scope: z.string().trim().nullish(),
+  subject: z.string().trim().min(1),
+  body: z.string().trim().nullish(),
+  breaking: z.boolean().default(false),
+  footers: z
+    .array(z.object({ token: z.string().trim().min(1), value: z.string() }))
+    .default([])
+});
+
+export type StructuredCommit = z.infer<typeof structuredCommitSchema>;
+
+/**
+ * The same shape for Gemini's `responseSchema`, which constrains the
+ * reply to it.
+ */
+export const STRUCTURED_COMMIT_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    type: {
+      type: SchemaType.STRING,
+      description: 'conventional commit type, e.g. feat or fix'
+    },
+    scope: {
+      type: SchemaType.STRING,
+      description: 'the part of the codebase affected',
+      nullable: true
+    },
+    subject: {
+      type: SchemaType.STRING,
+      description: 'what changed, in the present tense'
+    },
+    body: {
+      type: SchemaType.STRING,
+      description: 'why the changes were done',
+      nullable: true
+    },
+    breaking: { type: SchemaType.BOOLEAN },
+    footers: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: {
+          token: {
+            type: SchemaType.STRING,
+            description: 'git trailer token, e.g. Refs or BREAKING CHANGE'
+          },
+          value: { type: SchemaType.STRING }
+        },
+        required: ['token', 'value']
+      }
+    }
+  },
+  required: ['type', 'subject', 'breaking', 'footers']
+};
+
+// models outside of Gemini's JSON mode like to wrap the object in a code block
+const unwrapCodeBlock = (reply: string) =>
+  reply
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+/**
+ * Parses and validates a structured reply of the model
+ * @throws Error describing what is wrong with the reply
+ */
+export const parseStructuredCommit = (reply: string): StructuredCommit => {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(unwrapCodeBlock(reply));
+  } catch (error) {
+    throw new Error(
+      `The model did not reply with a JSON object: ${(error as Error).message}`
+    );
+  }
+
+  const result = structuredCommitSchema.safeParse(json);
+
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || 'reply'}: ${issue.message}`)
+      .join(', ');
+
+    throw new Error(`The model replied with an invalid commit: ${issues}`);
+  }
+
+  return result.data;
+};
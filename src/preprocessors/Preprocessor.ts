@@ -0,0 +1,29 @@
+import type { FileVersions } from '../utils/fileVersions';
+
+export interface DiffPreprocessor {
+  name: string;
+  /** e.g. `.ipynb`, matched case-insensitively */
+  extensions: string[];
+  /** narrows `extensions`, e.g. to JSON fixtures but not package.json */
+  appliesTo?: (path: string) => boolean;
+  /**
+   * Describes the change of a file instead of its hunks, undefined keeps
+   * git's diff, e.g. for files it cannot parse.
+   */
+  preprocess?: (file: FileVersions) => string[] | undefined;
+  /** keeps git's diff as it is, without condensing it */
+  verbatim?: boolean;
+}
+
+const MAX_LISTED_ITEMS = 20;
+
+// e.g. `id, name and 3 more`
+export const listItems = (items: string[]) =>
+  items.length > MAX_LISTED_ITEMS
+    ? `${items.slice(0, MAX_LISTED_ITEMS).join(', ')} and ${
+        items.length - MAX_LISTED_ITEMS
+      } more`
+    : items.join(', ');
+
+export const formatCountChange = (before: number, after: number) =>
+  before === after ? `${after}` : `${before} → ${after}`;
@@ -0,0 +1,126 @@
+import { FileVersions } from '../utils/fileVersions';
+import { DiffPreprocessor, formatCountChange, listItems } from './Preprocessor';
+
+// .json files below these directories are fixtures, the others may be
+// configuration whose values matter, like package.json
+export const DATA_DIRECTORIES = [
+  'fixtures',
+  '__fixtures__',
+  'testdata',
+  'test-data',
+  'data',
+  'seeds',
+  'mocks',
+  '__mocks__'
+];
+
+const isJsonLines = (path: string) => /\.(jsonl|ndjson)$/i.test(path);
+
+const isDataFile = (path: string) =>
+  isJsonLines(path) ||
+  path
+    .split('/')
+    .slice(0, -1)
+    .some((directory) => DATA_DIRECTORIES.includes(directory.toLowerCase()));
+
+const getType = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+interface Shape {
+  /** `path: type` of every value, arrays merge their items into `path[]` */
+  schema: Set<string>;
+  /** the length of arrays not nested in another array, by path */
+  records: Map<string, number>;
+}
+
+const collectShape = (
+  value: unknown,
+  path: string,
+  shape: Shape,
+  inArray: boolean
+) => {
+  shape.schema.add(`${path || '(root)'}: ${getType(value)}`);
+
+  if (Array.isArray(value)) {
+    if (!inArray) shape.records.set(path || '(root)', value.length);
+    value.forEach((item) => collectShape(item, `${path}[]`, shape, true));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      collectShape(item, path ? `${path}.${key}` : key, shape, inArray);
+    }
+  }
+};
+
+const parseShape = (content: string, jsonLines: boolean): Shape => {
+  const shape: Shape = { schema: new Set(), records: new Map() };
+  if (!content.trim()) return shape;
+
+  const value = jsonLines
+    ? content
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line))
+    : JSON.parse(content);
+
+  collectShape(value, '', shape, false);
+  return shape;
+};
+
+/**
+ * Compares the schema, the `path: type` of every value, and the record
+ * counts of two versions of a JSON or JSON Lines file.
+ * @throws when either version is not valid JSON
+ */
+export const describeJsonChange = ({
+  newPath,
+  oldPath,
+  oldContent,
+  newContent
+}: FileVersions): string[] => {
+  const jsonLines = isJsonLines(newPath || oldPath);
+  const before = parseShape(oldContent, jsonLines);
+  const after = parseShape(newContent, jsonLines);
+
+  const added = [...after.schema].filter((entry) => !before.schema.has(entry));
+  const removed = [...before.schema].filter(
+    (entry) => !after.schema.has(entry)
+  );
+  const records = [
+    ...new Set([...before.records.keys(), ...after.records.keys()])
+  ]
+    .filter((path) => before.records.get(path) !== after.records.get(path))
+    .map(
+      (path) =>
+        `${path} ${formatCountChange(
+          before.records.get(path) ?? 0,
+          after.records.get(path) ?? 0
+        )}`
+    );
+
+  const changes = [
+    ...(records.length ? [`records: ${listItems(records)}`] : []),
+    ...(added.length ? [`schema added: ${listItems(added)}`] : []),
+    ...(removed.length ? [`schema removed: ${listItems(removed)}`] : [])
+  ];
+
+  return [
+    'data schema and record counts, values left out:',
+    ...(changes.length
+      ? changes
+      : ['only values changed, the schema and record counts did not'])
+  ];
+};
+
+export const jsonPreprocessor: DiffPreprocessor = {
+  name: 'json',
+  extensions: ['.json', '.jsonl', '.ndjson'],
+  appliesTo: isDataFile,
+  preprocess: (file) => {
+    try {
+      return describeJsonChange(file);
+    } catch {
+      // e.g. conflict markers, git's diff shows them
+      return undefined;
+    }
+  }
+};
@@ -0,0 +1,202 @@
+import { FileVersions } from '../utils/fileVersions';
+import { DiffPreprocessor } from './Preprocessor';
+
+interface Cell {
+  type: string;
+  source: string[];
+  /** serialized, only compared */
+  outputs: string;
+}
+
+type Operation<T> =
+  | { type: 'same'; before: T; after: T }
+  | { type: 'removed'; before: T }
+  | { type: 'added'; after: T };
+
+// above this many comparisons, everything is reported as replaced
+const MAX_COMPARISONS = 4_000_000;
+
+/**
+ * A longest common subsequence diff of two lists, removals of a change
+ * come before its additions.
+ */
+export const diffSequences = <T>(
+  before: T[],
+  after: T[],
+  equals: (a: T, b: T) => boolean
+): Operation<T>[] => {
+  if (before.length * after.length > MAX_COMPARISONS) {
+    return [
+      ...before.map((item) => ({ type: 'removed' as const, before: item })),
+      ...after.map((item) => ({ type: 'added' as const, after: item }))
+    ];
+  }
+
+  // lengths[i][j]: the common subsequence of before[i:] and after[j:]
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = equals(before[i], after[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const operations: Operation<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && equals(before[i], after[j])) {
+      operations.push({ type: 'same', before: before[i++], after: after[j++] });
+    } else if (
+      j === after.length ||
+      (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      operations.push({ type: 'removed', before: before[i++] });
+    } else {
+      operations.push({ type: 'added', after: after[j++] });
+    }
+  }
+
+  return operations;
+};
+
+const toLines = (source: unknown): string[] =>
+  (Array.isArray(source) ? source.join('') : String(source ?? ''))
+    .replace(/\n$/, '')
+    .split('\n');
+
+/**
+ * The cells of an .ipynb file, nbformat 4, empty for a missing file.
+ * @throws when the file is not a notebook
+ */
+const parseCells = (content: string): Cell[] => {
+  if (!content.trim()) return [];
+
+  const { cells } = JSON.parse(content);
+  if (!Array.isArray(cells)) throw new Error('Not a notebook');
+
+  return cells.map((cell) => ({
+    type: cell.cell_type,
+    source: toLines(cell.source),
+    outputs: JSON.stringify(cell.outputs ?? [])
+  }));
+};
+
+const isSameSource = (a: Cell, b: Cell) =>
+  a.type === b.type && a.source.join('\n') === b.source.join('\n');
+
+// lines kept around a change of a cell
+const CONTEXT_LINES = 2;
+
+const diffSource = (before: string[], after: string[]): string[] => {
+  const lines = diffSequences(before, after, (a, b) => a === b).map(
+    (operation) =>
+      operation.type === 'same'
+        ? ` ${operation.after}`
+        : operation.type === 'removed'
+        ? `-${operation.before}`
+        : `+${operation.after}`
+  );
+
+  const isNearChange = (i: number) =>
+    lines
+      .slice(Math.max(0, i - CONTEXT_LINES), i + CONTEXT_LINES + 1)
+      .some((line) => line[0] !== ' ');
+
+  return lines.flatMap((line, i) =>
+    isNearChange(i) ? [line] : i === 0 || isNearChange(i - 1) ? [' ...'] : []
+  );
+};
+
+/**
+ * The cells added, removed and changed between two versions of a
+ * notebook, with the lines of changed cells as a diff. Outputs, execution
+ * counts and metadata are left out.
+ * @throws when either version is not a notebook
+ */
+export const describeNotebookChange = ({
+  oldContent,
+  newContent
+}: FileVersions): string[] => {
+  const operations = diffSequences(
+    parseCells(oldContent),
+    parseCells(newContent),
+    isSameSource
+  );
+
+  const lines: string[] = [];
+  let changedOutputs = 0;
+  let oldIndex = 0;
+  let newIndex = 0;
+  // removals waiting to pair up with the additions following them
+  let removed: Array<{ cell: Cell; index: number }> = [];
+
+  const flushRemoved = () => {
+    for (const { cell, index } of removed) {
+      lines.push(
+        `${cell.type} cell ${index} removed:`,
+        ...cell.source.map((line) => `-${line}`)
+      );
+    }
+    removed = [];
+  };
+
+  for (const operation of operations) {
+    if (operation.type === 'same') {
+      flushRemoved();
+      if (operation.before.outputs !== operation.after.outputs) {
+        changedOutputs++;
+      }
+      oldIndex++;
+      newIndex++;
+    } else if (operation.type === 'removed') {
+      removed.push({ cell: operation.before, index: ++oldIndex });
+    } else {
+      const cell = operation.after;
+      const paired = removed.shift();
+      newIndex++;
+
+      lines.push(
+        ...(paired
+          ? [
+              `${cell.type} cell ${newIndex} changed:`,
+              ...diffSource(paired.cell.source, cell.source)
+            ]
+          : [
+              `${cell.type} cell ${newIndex} added:`,
+              ...cell.source.map((line) => `+${line}`)
+            ])
+      );
+    }
+  }
+  flushRemoved();
+
+  if (changedOutputs) {
+    lines.push(
+      `outputs of ${changedOutputs} ${
+        changedOutputs === 1 ? 'cell' : 'cells'
+      } changed`
+    );
+  }
+
+  return [
+    'notebook cells, outputs and metadata left out:',
+    ...(lines.length ? lines : ['only metadata changed'])
+  ];
+};
+
+export const notebookPreprocessor: DiffPreprocessor = {
+  name: 'notebook',
+  extensions: ['.ipynb'],
+  preprocess: (file) => {
+    try {
+      return describeNotebookChange(file);
+    } catch {
+      // e.g. conflict markers, git's diff shows them
+      return undefined;
+    }
+  }
+};
@@ -0,0 +1,35 @@
+import { extname } from 'path';
+import { jsonPreprocessor } from './json';
+import { notebookPreprocessor } from './notebook';
+import { DiffPreprocessor } from './Preprocessor';
+import { sqlPreprocessor } from './sql';
+import { tablePreprocessor } from './table';
+
+const preprocessors = new Map<string, DiffPreprocessor>();
+
+/**
+ * Registers `definition` for its extensions, replacing the preprocessor
+ * registered for them before.
+ */
+export const registerPreprocessor = (definition: DiffPreprocessor) => {
+  for (const extension of definition.extensions) {
+    preprocessors.set(extension.toLowerCase(), definition);
+  }
+};
+
+export const getPreprocessor = (
+  path: string = ''
+): DiffPreprocessor | undefined => {
+  const preprocessor = preprocessors.get(extname(path).toLowerCase());
+
+  return preprocessor?.appliesTo && !preprocessor.appliesTo(path)
+    ? undefined
+    : preprocessor;
+};
+
+[
+  notebookPreprocessor,
+  tablePreprocessor,
+  jsonPreprocessor,
+  sqlPreprocessor
+].forEach(registerPreprocessor);
@@ -0,0 +1,8 @@
+import { DiffPreprocessor } from './Preprocessor';
+
+// migrations are read statement by statement, nothing is left out
+export const sqlPreprocessor: DiffPreprocessor = {
+  name: 'sql',
+  extensions: ['.sql'],
+  verbatim: true
+};
@@ -0,0 +1,73 @@
+import { FileVersions } from '../utils/fileVersions';
+import { DiffPreprocessor, formatCountChange, listItems } from './Preprocessor';
+
+// the fields of one line, quotes may hold the delimiter
+const parseRow = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      field += char;
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  return [...fields, field.trim()];
+};
+
+const parseTable = (content: string, delimiter: string) => {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+
+  return {
+    columns: lines.length ? parseRow(lines[0], delimiter) : [],
+    rows: Math.max(0, lines.length - 1)
+  };
+};
+
+/**
+ * The columns and row count of both versions of a CSV or TSV file, with
+ * its first line as the header.
+ */
+export const describeTableChange = (
+  { oldPath, newPath, oldContent, newContent }: FileVersions,
+  delimiter: string = (newPath || oldPath).toLowerCase().endsWith('.tsv')
+    ? '\t'
+    : ','
+): string[] => {
+  const before = parseTable(oldContent, delimiter);
+  const after = parseTable(newContent, delimiter);
+
+  // added and deleted files have no columns to compare with
+  const compared = before.columns.length && after.columns.length;
+  const added = compared
+    ? after.columns.filter((column) => !before.columns.includes(column))
+    : [];
+  const removed = compared
+    ? before.columns.filter((column) => !after.columns.includes(column))
+    : [];
+
+  return [
+    'table columns and row count, values left out:',
+    ...(after.columns.length ? [`columns: ${listItems(after.columns)}`] : []),
+    ...(added.length ? [`columns added: ${listItems(added)}`] : []),
+    ...(removed.length ? [`columns removed: ${listItems(removed)}`] : []),
+    `rows: ${formatCountChange(before.rows, after.rows)}`
+  ];
+};
+
+export const tablePreprocessor: DiffPreprocessor = {
+  name: 'table',
+  extensions: ['.csv', '.tsv'],
+  preprocess: (file) => describeTableChange(file)
+};
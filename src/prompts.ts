@@ -94,8 +94,9 @@ const FULL_GITMOJI_SPEC = `${GITMOJI_HELP}
 const CONVENTIONAL_COMMIT_KEYWORDS =
   'Do not preface the commit with anything, except for the conventional commit keywords: fix, feat, build, chore, ci, docs, style, refactor, perf, test.';
 
+// structured commits get their GitMoji from the formatter, by type
 const getCommitConvention = (fullGitMojiSpec: boolean) =>
-  config.OCO_EMOJI
+  config.OCO_EMOJI && !config.OCO_STRUCTURED_OUTPUT
     ? fullGitMojiSpec
       ? FULL_GITMOJI_SPEC
       : GITMOJI_HELP
@@ -116,6 +117,11 @@ const getScopeInstruction = () =>
     ? 'Do not include a scope in the commit message format. Use the format: <type>: <subject>'
     : '';
 
+const getStructuredOutputInstruction = () =>
+  config.OCO_STRUCTURED_OUTPUT
+    ? 'Reply with a JSON object only, with these fields: "type" (the conventional commit keyword), "scope" (the part of the codebase affected, or null), "subject" (what changed), "body" (why the changes were done, or null), "breaking" (true if the changes break compatibility) and "footers" (an array of git trailers like {"token": "Refs", "value": "#123"}, usually empty).'
+    : '';
+
 /**
  * Get the context of the user input
  * @param extraArgs - The arguments passed to the command line
@@ -147,13 +153,43 @@ const INIT_MAIN_PROMPT = (
     const descriptionGuideline = getDescriptionInstruction();
     const oneLineCommitGuideline = getOneLineCommitInstruction();
     const scopeInstruction = getScopeInstruction();
+    const structuredOutputInstruction = getStructuredOutputInstruction();
     const generalGuidelines = `Use the present tense. Lines must not be longer than 74 characters. Use ${language} for the commit message.`;
     const userInputContext = userInputCodeContext(context);
 
-    return `${missionStatement}\n${diffInstruction}\n${conventionGuidelines}\n${descriptionGuideline}\n${oneLineCommitGuideline}\n${scopeInstruction}\n${generalGuidelines}\n${userInputContext}`;
+    return `${missionStatement}\n${diffInstruction}\n${conventionGuidelines}\n${descriptionGuideline}\n${oneLineCommitGuideline}\n${scopeInstruction}\n${generalGuidelines}\n${userInputContext}\n${structuredOutputInstruction}`;
   })()
 });
 
+/**
+ * Asks to revise the commit message of the previous assistant turn
+ * @param feedback - what the user wants changed, e.g. "shorter subject"
+ */
+export const getRefinePrompt = (feedback: string): Message => ({
+  role: 'user',
+  content: `Revise your last commit message according to this feedback from the user: <feedback>${feedback}</feedback>\nKeep following all the instructions above and reply with the revised commit message only.`
+});
+
+/**
+ * Map stage for diffs too large for one request: every part is condensed
+ * into notes, so one final request can write the commit message.
+ */
+export const getDiffSummaryPrompt = (): Message => ({
+  role: 'system',
+  content: `${IDENTITY} I'll send you a part of the output of 'git diff --staged' that is too large to send at once, or notes on several such parts. Condense it into short notes for whoever writes the commit message: per file, WHAT changed and WHY if the code tells. Keep names of functions, classes, config keys and files. Reply with a plain bullet list only, do not write a commit message.`
+});
+
+/**
+ * Reduce stage: the notes on all parts of the diff stand in for the diff.
+ * @param notes - one entry per part, as written for getDiffSummaryPrompt
+ */
+export const getDiffNotesPrompt = (notes: string[]): Message => ({
+  role: 'user',
+  content: `The diff is too large to send at once, here are notes on all of its parts instead:\n\n${notes.join(
+    '\n\n'
+  )}\n\nWrite a single commit message covering all of the changes, following all the instructions above.`
+});
+
 export const INIT_DIFF_PROMPT: Message =
 {
   role: 'user',
@@ -219,11 +255,34 @@ const getConsistencyContent = (translation: ConsistencyPrompt) => {
   return [fix, feat, description].filter(Boolean).join('\n');
 };
 
+// the fix example as the JSON object structured mode replies with
+const getStructuredConsistencyContent = (translation: ConsistencyPrompt) => {
+  const fixMessage =
+    config.OCO_OMIT_SCOPE && translation.commitFixOmitScope
+      ? translation.commitFixOmitScope
+      : translation.commitFix;
+
+  // translated examples may use full-width colons, e.g. `fix(server.ts)：`
+  const [, scope, subject] =
+    fixMessage.match(/^[^(:：]*(?:\((.+?)\))?\s*[:：]\s*(.*)$/) ?? [];
+
+  return JSON.stringify({
+    type: 'fix',
+    scope: (!config.OCO_OMIT_SCOPE && scope) || null,
+    subject: subject ?? fixMessage,
+    body: config.OCO_DESCRIPTION ? translation.commitDescription : null,
+    breaking: false,
+    footers: []
+  });
+};
+
 const INIT_CONSISTENCY_PROMPT = (
   translation: ConsistencyPrompt
 ): Message => ({
   role: 'assistant',
-  content: getConsistencyContent(translation)
+  content: config.OCO_STRUCTURED_OUTPUT
+    ? getStructuredConsistencyContent(translation)
+    : getConsistencyContent(translation)
 });
 
 export const getMainCommitPrompt = async (
@@ -0,0 +1,53 @@
+/**
+ * Rejects with `signal.reason` as soon as `signal` aborts, even when
+ * `promise` does not listen to it.
+ */
+export const abortable = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  });
+};
+
+/**
+ * Derives a signal that aborts with `signal` or after `timeoutMs`,
+ * 0 disables the timeout. Call `clear()` once the work settled.
+ */
+export const createTimeoutSignal = (
+  timeoutMs: number,
+  signal?: AbortSignal
+) => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort(new Error(`Timed out after ${timeoutMs}ms`));
+        }, timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    isTimedOut: () => timedOut,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+};
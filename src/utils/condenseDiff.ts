@@ -0,0 +1,231 @@
+import {
+  FileDiff,
+  getPaths,
+  Hunk,
+  isChange,
+  mapFileDiff,
+  splitFileDiffs
+} from './parseDiff';
+import { isPreprocessedFile, isVerbatimFile } from './preprocessDiff';
+
+export enum CONDENSE_STRATEGIES {
+  /** one line of context around changes instead of three, like `-U1` */
+  context = 'context',
+  /** hunks changing nothing but whitespace become a one-line note */
+  whitespace = 'whitespace',
+  /** renames and moves without changes become `renamed a to b` */
+  renames = 'renames',
+  /** deleted files become `deleted a (N lines)` */
+  deletions = 'deletions',
+  /** big changes to data files become line statistics */
+  data = 'data'
+}
+
+export const DATA_FILE_EXTENSIONS = [
+  '.json',
+  '.jsonl',
+  '.ndjson',
+  '.csv',
+  '.tsv',
+  '.xml'
+];
+
+// changed lines above which a data file is summarized
+export const MAX_DATA_FILE_CHANGES = 100;
+
+// empty ranges start at the line before, as in git's own hunks
+const toHunk = (
+  lines: string[],
+  oldStart: number,
+  newStart: number,
+  section: string
+): Hunk => {
+  const oldCount = lines.filter((line) => /^[ -]/.test(line)).length;
+  const newCount = lines.filter((line) => /^[ +]/.test(line)).length;
+
+  return {
+    oldStart: oldCount ? oldStart : oldStart - 1,
+    oldCount,
+    newStart: newCount ? newStart : newStart - 1,
+    newCount,
+    section,
+    lines
+  };
+};
+
+/**
+ * Keeps one line of context before and after every change, splitting
+ * hunks where more context lies between two changes.
+ */
+const reduceContext = (hunk: Hunk): Hunk[] => {
+  const { lines, section } = hunk;
+
+  // e.g. already collapsed whitespace changes
+  if (!lines.some(isChange)) return [hunk];
+
+  const hunks: Hunk[] = [];
+  let current: { lines: string[]; oldStart: number; newStart: number } | null =
+    null;
+  // empty ranges point at the line before
+  let oldLine = hunk.oldCount ? hunk.oldStart : hunk.oldStart + 1;
+  let newLine = hunk.newCount ? hunk.newStart : hunk.newStart + 1;
+
+  const close = () => {
+    if (!current) return;
+    hunks.push(
+      toHunk(current.lines, current.oldStart, current.newStart, section)
+    );
+    current = null;
+  };
+
+  lines.forEach((line, i) => {
+    const isKept = line.startsWith('\\')
+      ? !!current
+      : isChange(line) || isChange(lines[i - 1]) || isChange(lines[i + 1]);
+
+    if (isKept) {
+      current ??= { lines: [], oldStart: oldLine, newStart: newLine };
+      current.lines.push(line);
+    } else {
+      close();
+    }
+
+    if (/^[ -]/.test(line)) oldLine++;
+    if (/^[ +]/.test(line)) newLine++;
+  });
+
+  close();
+  return hunks;
+};
+
+const stripWhitespace = (lines: string[], type: string) =>
+  lines
+    .filter((line) => line[0] === type)
+    .map((line) => line.slice(1).replace(/\s+/g, ''))
+    .join('');
+
+const isWhitespaceOnly = ({ lines }: Hunk) =>
+  lines.some(isChange) &&
+  stripWhitespace(lines, '-') === stripWhitespace(lines, '+');
+
+const collapseWhitespace = (hunk: Hunk): Hunk =>
+  isWhitespaceOnly(hunk)
+    ? {
+        ...hunk,
+        section: `${hunk.section} whitespace-only changes to ${
+          hunk.lines.filter(isChange).length
+        } lines`,
+        lines: []
+      }
+    : hunk;
+
+const countLines = (hunks: Hunk[], type: string) =>
+  hunks.reduce(
+    (count, { lines }) =>
+      count + lines.filter((line) => line[0] === type).length,
+    0
+  );
+
+const isDataFile = (path = '') =>
+  DATA_FILE_EXTENSIONS.some((extension) =>
+    path.toLowerCase().endsWith(extension)
+  );
+
+// renames, deletions and data files are replaced by a single line
+const summarizeFile = (
+  file: FileDiff,
+  strategies: CONDENSE_STRATEGIES[]
+): string | undefined => {
+  const { header, hunks } = file;
+  const { oldPath, newPath } = getPaths(header);
+
+  if (
+    strategies.includes(CONDENSE_STRATEGIES.renames) &&
+    header.includes('similarity index 100%') &&
+    header.some((line) => line.startsWith('rename from '))
+  ) {
+    return `renamed ${oldPath} to ${newPath}`;
+  }
+
+  if (
+    strategies.includes(CONDENSE_STRATEGIES.deletions) &&
+    header.some((line) => line.startsWith('deleted file mode'))
+  ) {
+    const removed = countLines(hunks, '-');
+    return removed
+      ? `deleted ${oldPath} (${removed} ${removed === 1 ? 'line' : 'lines'})`
+      : `deleted ${oldPath}`;
+  }
+
+  const added = countLines(hunks, '+');
+  const removed = countLines(hunks, '-');
+
+  // preprocessDiff describes the schema of CSV and JSON fixtures instead
+  if (
+    strategies.includes(CONDENSE_STRATEGIES.data) &&
+    isDataFile(newPath) &&
+    !isPreprocessedFile(newPath) &&
+    added + removed > MAX_DATA_FILE_CHANGES
+  ) {
+    return `changed data in ${newPath}: +${added} -${removed} lines in ${hunks.length} hunks, not shown`;
+  }
+
+  return undefined;
+};
+
+const condenseFile = (
+  file: FileDiff,
+  strategies: CONDENSE_STRATEGIES[]
+): FileDiff => {
+  if (isVerbatimFile(getPaths(file.header).newPath)) return file;
+
+  const summary = summarizeFile(file, strategies);
+  let { header, hunks } = file;
+
+  if (summary) {
+    header = [header[0], summary];
+    hunks = [];
+  }
+
+  if (strategies.includes(CONDENSE_STRATEGIES.context)) {
+    hunks = hunks.flatMap(reduceContext);
+  }
+
+  if (strategies.includes(CONDENSE_STRATEGIES.whitespace)) {
+    hunks = hunks.map(collapseWhitespace);
+  }
+
+  return { ...file, header, hunks };
+};
+
+/**
+ * Shrinks a `git diff` by the given strategies, file by file, keeping the
+ * `diff --git` lines the chunking relies on. Condensing twice changes
+ * nothing more.
+ */
+export const condenseDiff = (
+  diff: string,
+  strategies: CONDENSE_STRATEGIES[] = Object.values(CONDENSE_STRATEGIES)
+): string =>
+  strategies.length
+    ? splitFileDiffs(diff)
+        .map((fileDiff) =>
+          mapFileDiff(fileDiff, (file) => condenseFile(file, strategies))
+        )
+        .join('')
+    : diff;
+
+/**
+ * OCO_DIFF_CONDENSE, a comma-separated list of strategies or `none`.
+ */
+export const parseCondenseStrategies = (
+  value: string | undefined
+): CONDENSE_STRATEGIES[] =>
+  (value ?? Object.values(CONDENSE_STRATEGIES).join(','))
+    .split(',')
+    .map((strategy) => strategy.trim())
+    .filter((strategy): strategy is CONDENSE_STRATEGIES =>
+      Object.values(CONDENSE_STRATEGIES).includes(
+        strategy as CONDENSE_STRATEGIES
+      )
+    );
@@ -0,0 +1,370 @@
+import { getFileDiffPaths, readFileVersions } from './fileVersions';
+import {
+  FileDiff,
+  getPaths,
+  Hunk,
+  isChange,
+  mapFileDiff,
+  splitFileDiffs
+} from './parseDiff';
+
+export interface CodeSymbol {
+  /** e.g. `function`, `class` or `method` */
+  kind: string;
+  /** qualified by the enclosing classes, e.g. `Greeter.greet` */
+  name: string;
+  /** first and last line, starting at 1 */
+  start: number;
+  end: number;
+}
+
+type Language = 'javascript' | 'python' | 'go';
+
+export const SYMBOL_LANGUAGES: Record<string, Language> = {
+  '.ts': 'javascript',
+  '.tsx': 'javascript',
+  '.mts': 'javascript',
+  '.cts': 'javascript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go'
+};
+
+export const getLanguage = (path = ''): Language | undefined =>
+  SYMBOL_LANGUAGES[path.slice(path.lastIndexOf('.')).toLowerCase()];
+
+interface Declaration {
+  kind: string;
+  pattern: RegExp;
+  /** only within a class, like methods */
+  inClass?: boolean;
+}
+
+const JS_MODIFIERS =
+  '(?:(?:export|default|declare|abstract|async|public|private|protected|static|readonly|override|get|set)\\s+)*';
+
+// keywords that look like a method call or declaration at the start of a line
+const JS_KEYWORDS = new Set([
+  'if',
+  'for',
+  'while',
+  'switch',
+  'catch',
+  'return',
+  'function'
+]);
+
+// the name is the last group
+const DECLARATIONS: Record<Language, Declaration[]> = {
+  javascript: [
+    {
+      kind: 'class',
+      pattern: new RegExp(`^\\s*${JS_MODIFIERS}class\\s+([A-Za-z_$][\\w$]*)`)
+    },
+    {
+      kind: 'interface',
+      pattern: new RegExp(
+        `^\\s*${JS_MODIFIERS}interface\\s+([A-Za-z_$][\\w$]*)`
+      )
+    },
+    {
+      kind: 'enum',
+      pattern: new RegExp(
+        `^\\s*${JS_MODIFIERS}(?:const\\s+)?enum\\s+([A-Za-z_$][\\w$]*)`
+      )
+    },
+    {
+      kind: 'function',
+      pattern: new RegExp(
+        `^\\s*${JS_MODIFIERS}function\\s*\\*?\\s*([A-Za-z_$][\\w$]*)`
+      )
+    },
+    {
+      // arrow functions and function expressions assigned to a variable
+      kind: 'function',
+      pattern: new RegExp(
+        `^\\s*${JS_MODIFIERS}(?:const|let|var)\\s+([A-Za-z_$][\\w$]*)\\s*(?::[^=]+)?=\\s*(?:async\\s+)?(?:function\\b|\\(|[A-Za-z_$][\\w$]*\\s*=>)`
+      )
+    },
+    {
+      kind: 'method',
+      pattern: new RegExp(
+        `^\\s*${JS_MODIFIERS}\\*?([A-Za-z_$][\\w$]*)\\s*(?:<[^>]*>)?\\s*\\(`
+      ),
+      inClass: true
+    }
+  ],
+  python: [
+    { kind: 'class', pattern: /^\s*class\s+(\w+)/ },
+    { kind: 'method', pattern: /^\s*(?:async\s+)?def\s+(\w+)/, inClass: true },
+    { kind: 'function', pattern: /^\s*(?:async\s+)?def\s+(\w+)/ }
+  ],
+  go: [
+    {
+      kind: 'method',
+      pattern: /^func\s*\(\s*\w*\s*\*?\s*(\w+)[^)]*\)\s*(\w+)/
+    },
+    { kind: 'function', pattern: /^func\s+(\w+)/ },
+    { kind: 'struct', pattern: /^type\s+(\w+)\s+struct\b/ },
+    { kind: 'interface', pattern: /^type\s+(\w+)\s+interface\b/ }
+  ]
+};
+
+const matchDeclaration = (
+  line: string,
+  language: Language,
+  parent?: CodeSymbol
+): { kind: string; name: string } | undefined => {
+  for (const { kind, pattern, inClass } of DECLARATIONS[language]) {
+    if (inClass && parent?.kind !== 'class') continue;
+
+    const match = line.match(pattern);
+    if (!match || JS_KEYWORDS.has(match[match.length - 1])) continue;
+
+    // Go methods are qualified by their receiver instead of nesting
+    const name = match.slice(1).join('.');
+    return { kind, name: parent ? `${parent.name}.${name}` : name };
+  }
+
+  return undefined;
+};
+
+const last = <T>(items: T[]): T | undefined => items[items.length - 1];
+
+// strings and comments on a single line, so their braces are not counted
+const stripCode = (line: string) =>
+  line
+    .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(/\/\/.*$|\/\*.*?\*\//g, '');
+
+/**
+ * Declarations of brace languages end where the brace opened after them
+ * closes, or at the first `;` when no body follows.
+ */
+const findBraceSymbols = (lines: string[], language: Language) => {
+  const symbols: CodeSymbol[] = [];
+  const open: Array<{ symbol: CodeSymbol; depth: number; opened: boolean }> =
+    [];
+  let depth = 0;
+  let parens = 0;
+
+  const close = (line: number) => {
+    const { symbol } = open.pop()!;
+    symbols.push({ ...symbol, end: line });
+  };
+
+  lines.forEach((line, i) => {
+    const parent = last(open);
+    const declaration =
+      !parent || parent.opened
+        ? matchDeclaration(line, language, parent?.symbol)
+        : undefined;
+
+    if (declaration && (!parent || depth === parent.depth + 1)) {
+      open.push({
+        symbol: { ...declaration, start: i + 1, end: i + 1 },
+        depth,
+        opened: false
+      });
+    }
+
+    for (const char of stripCode(line)) {
+      const current = last(open);
+
+      if (char === '(') parens++;
+      if (char === ')') parens = Math.max(0, parens - 1);
+
+      if (char === '{') {
+        depth++;
+        // braces in parameters are destructuring, not the body
+        if (current && !current.opened && !parens) current.opened = true;
+      } else if (char === '}') {
+        depth = Math.max(0, depth - 1);
+        while (open.length && last(open)!.opened && depth <= last(open)!.depth)
+          close(i + 1);
+      } else if (
+        char === ';' &&
+        current &&
+        !current.opened &&
+        !parens &&
+        depth === current.depth
+      ) {
+        close(i + 1);
+      }
+    }
+  });
+
+  while (open.length) close(lines.length);
+  return symbols;
+};
+
+const getIndent = (line: string) => line.match(/^\s*/)![0].length;
+
+/**
+ * Python blocks end before the next line indented no deeper than their
+ * declaration, blank lines, comments and closing brackets aside.
+ */
+const findIndentedSymbols = (lines: string[]) => {
+  const symbols: CodeSymbol[] = [];
+  const open: Array<{ symbol: CodeSymbol; indent: number }> = [];
+  let lastLine = 0;
+
+  const close = () => {
+    const { symbol } = open.pop()!;
+    symbols.push({ ...symbol, end: lastLine });
+  };
+
+  lines.forEach((line, i) => {
+    if (!line.trim() || /^\s*(#|[)\]}])/.test(line)) return;
+
+    const indent = getIndent(line);
+    while (open.length && indent <= last(open)!.indent) close();
+
+    const declaration = matchDeclaration(line, 'python', last(open)?.symbol);
+    if (declaration) {
+      open.push({
+        symbol: { ...declaration, start: i + 1, end: i + 1 },
+        indent
+      });
+    }
+
+    lastLine = i + 1;
+  });
+
+  while (open.length) close();
+  return symbols;
+};
+
+/**
+ * The functions, classes and methods declared in `content`, ordered by
+ * their first line.
+ */
+export const findSymbols = (content: string, path: string): CodeSymbol[] => {
+  const language = getLanguage(path);
+  if (!language || !content) return [];
+
+  const lines = content.split('\n');
+  const symbols =
+    language === 'python'
+      ? findIndentedSymbols(lines)
+      : findBraceSymbols(lines, language);
+
+  return symbols.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * The innermost symbol spanning `line`.
+ */
+export const getEnclosingSymbol = (
+  symbols: CodeSymbol[],
+  line: number
+): CodeSymbol | undefined =>
+  symbols.filter(({ start, end }) => start <= line && line <= end).pop();
+
+const formatSymbol = ({ kind, name }: CodeSymbol) => `${kind} ${name}`;
+
+/**
+ * The symbols changed lines belong to, added ones by the new file and
+ * removed ones by the old file, e.g. ` in method Greeter.greet`. Keeps
+ * git's own section when no symbol encloses the changes.
+ */
+const describeHunk = (
+  hunk: Hunk,
+  oldSymbols: CodeSymbol[],
+  newSymbols: CodeSymbol[]
+): string => {
+  const symbols = new Set<string>();
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+
+  for (const line of hunk.lines) {
+    const symbol =
+      line[0] === '+'
+        ? getEnclosingSymbol(newSymbols, newLine)
+        : line[0] === '-'
+        ? getEnclosingSymbol(oldSymbols, oldLine)
+        : undefined;
+
+    if (symbol) symbols.add(formatSymbol(symbol));
+
+    if (/^[ -]/.test(line)) oldLine++;
+    if (/^[ +]/.test(line)) newLine++;
+  }
+
+  return symbols.size ? ` in ${[...symbols].join(', ')}` : hunk.section;
+};
+
+const listSymbols = (symbols: string[], change: string) =>
+  symbols.length ? [`${change} symbols: ${symbols.join(', ')}`] : [];
+
+/**
+ * Names the symbols every hunk of a file changes and lists the symbols
+ * added and removed after the `+++` line, so git's header stays intact.
+ * @param oldContent - the file before the change, `''` when it was added
+ * @param newContent - the file after the change, `''` when it was deleted
+ */
+export const enrichFileDiff = (
+  file: FileDiff,
+  oldContent: string,
+  newContent: string
+): FileDiff => {
+  if (!file.hunks.some(({ lines }) => lines.some(isChange))) return file;
+
+  const { oldPath, newPath } = getPaths(file.header);
+  const oldSymbols = findSymbols(oldContent, oldPath);
+  const newSymbols = findSymbols(newContent, newPath);
+
+  const oldNames = new Set(oldSymbols.map(formatSymbol));
+  const newNames = new Set(newSymbols.map(formatSymbol));
+
+  return {
+    ...file,
+    header: [
+      ...file.header,
+      ...listSymbols(
+        [...newNames].filter((name) => !oldNames.has(name)),
+        'added'
+      ),
+      ...listSymbols(
+        [...oldNames].filter((name) => !newNames.has(name)),
+        'removed'
+      )
+    ],
+    hunks: file.hunks.map((hunk) => ({
+      ...hunk,
+      section: describeHunk(hunk, oldSymbols, newSymbols)
+    }))
+  };
+};
+
+/**
+ * Enriches the staged `diff` file by file, see enrichFileDiff, reading
+ * the files of languages it knows from HEAD and the index.
+ */
+export const enrichDiff = async (
+  diff: string,
+  gitDir: string
+): Promise<string> => {
+  const fileDiffs = await Promise.all(
+    splitFileDiffs(diff).map(async (fileDiff) => {
+      const paths = getFileDiffPaths(fileDiff);
+      if (!getLanguage(paths?.oldPath) && !getLanguage(paths?.newPath)) {
+        return fileDiff;
+      }
+
+      const { oldContent, newContent } = await readFileVersions(
+        fileDiff,
+        gitDir
+      );
+
+      return mapFileDiff(fileDiff, (file) =>
+        enrichFileDiff(file, oldContent, newContent)
+      );
+    })
+  );
+
+  return fileDiffs.join('');
+};
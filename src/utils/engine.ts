@@ -1,17 +1,298 @@
-import { getConfig } from '../commands/config';
-import { AiEngine } from '../engine/Engine';
-import { GeminiEngine } from '../engine/gemini';
+import {
+  ConfigType,
+  DEFAULT_CONFIG,
+  getConfig,
+  OCO_AI_PROVIDER_ENUM
+} from '../commands/config';
+import { CachingEngine } from '../engine/cache';
+import {
+  AiEngine,
+  AiEngineConfig,
+  EngineDefinition,
+  Tokenizer
+} from '../engine/Engine';
+import {
+  EngineFallback,
+  FallbackEngine,
+  ModelReference,
+  parseModelFallbacks
+} from '../engine/fallback';
+import { getEngineDefinition, loadEngineModule } from '../engine/registry';
+import { RecordingEngine } from '../engine/replay';
+import { RetryingEngine, RetryPolicy } from '../engine/retry';
+import {
+  RequestScheduler,
+  SchedulerLimits,
+  SchedulingEngine
+} from '../engine/scheduler';
+import { getResponseCache } from './responseCache';
+import { cl100kTokenizer } from './tokenCount';
 
+export function parseCustomHeaders(headers: any): Record<string, string> {
+  let parsedHeaders = {};
+
+  if (!headers) return parsedHeaders;
+
+  try {
+    // getConfig() already JSON-parses the value, the .env may still hold a string
+    if (typeof headers === 'object' && !Array.isArray(headers)) {
+      parsedHeaders = headers;
+    } else {
+      parsedHeaders = JSON.parse(headers);
+    }
+  } catch (error) {
+    console.warn(
+      'Invalid OCO_API_CUSTOM_HEADERS format, ignoring custom headers'
+    );
+  }
+
+  return parsedHeaders;
+}
+
+// a plain string in the .env is a single stop sequence
+function parseStopSequences(stopSequences: unknown): string[] | undefined {
+  if (!stopSequences) return undefined;
+  return Array.isArray(stopSequences)
+    ? stopSequences.map(String)
+    : [String(stopSequences)];
+}
+
+/**
+ * Registers the engine from OCO_ENGINE_MODULE, must run before getEngine()
+ * when a third-party engine is configured.
+ */
+export async function loadExternalEngine(): Promise<void> {
+  const config = getConfig();
+
+  if (config.OCO_ENGINE_MODULE) {
+    await loadEngineModule(config.OCO_ENGINE_MODULE);
+  }
+}
+
+function getSelectedEngineDefinition(config: ConfigType): EngineDefinition {
+  const provider = config.OCO_AI_PROVIDER || OCO_AI_PROVIDER_ENUM.GEMINI;
+  const definition = getEngineDefinition(provider);
+
+  if (!definition) {
+    throw new Error(
+      `Unknown OCO_AI_PROVIDER '${provider}'. Set OCO_ENGINE_MODULE to load an external engine, or run \`oco config describe OCO_AI_PROVIDER\` to list supported providers`
+    );
+  }
+
+  return definition;
+}
+
+export function getMissingRequiredConfigKeys(
+  config: ConfigType = getConfig()
+): string[] {
+  const { requiredConfigKeys = [] } = getSelectedEngineDefinition(config);
+
+  return requiredConfigKeys.filter((key) => !config[key as keyof ConfigType]);
+}
+
+export function getRetryPolicy(config: ConfigType = getConfig()): RetryPolicy {
+  return {
+    maxAttempts:
+      config.OCO_RETRY_MAX_ATTEMPTS ?? DEFAULT_CONFIG.OCO_RETRY_MAX_ATTEMPTS,
+    baseDelayMs:
+      config.OCO_RETRY_BASE_DELAY_MS ?? DEFAULT_CONFIG.OCO_RETRY_BASE_DELAY_MS,
+    jitter: config.OCO_RETRY_JITTER ?? DEFAULT_CONFIG.OCO_RETRY_JITTER,
+    timeoutMs:
+      config.OCO_REQUEST_TIMEOUT_MS ?? DEFAULT_CONFIG.OCO_REQUEST_TIMEOUT_MS
+  };
+}
+
+export function getSchedulerLimits(
+  config: ConfigType = getConfig()
+): SchedulerLimits {
+  return {
+    concurrency:
+      config.OCO_MAX_CONCURRENT_REQUESTS ??
+      DEFAULT_CONFIG.OCO_MAX_CONCURRENT_REQUESTS,
+    requestsPerMinute:
+      config.OCO_REQUESTS_PER_MINUTE ?? DEFAULT_CONFIG.OCO_REQUESTS_PER_MINUTE
+  };
+}
+
+let requestScheduler: RequestScheduler | undefined;
+
+/**
+ * The scheduler shared by all engines of the process, so the parts of a big
+ * diff and the commits of the GitHub Action count against the same limits.
+ */
+export function getRequestScheduler(
+  config: ConfigType = getConfig()
+): RequestScheduler {
+  requestScheduler ??= new RequestScheduler(getSchedulerLimits(config));
+  return requestScheduler;
+}
+
+const fallbackListeners = new Set<(fallback: EngineFallback) => void>();
+
+/**
+ * Subscribes to switches between the models of OCO_MODEL_FALLBACKS.
+ * @returns a function removing the listener
+ */
+export function onEngineFallback(
+  listener: (fallback: EngineFallback) => void
+): () => void {
+  fallbackListeners.add(listener);
+  return () => fallbackListeners.delete(listener);
+}
+
+function createFallbackEngine(
+  { provider, model }: ModelReference,
+  selectedDefinition: EngineDefinition,
+  selectedEngineConfig: AiEngineConfig
+): AiEngine {
+  if (provider === selectedDefinition.name) {
+    return selectedDefinition.create({ ...selectedEngineConfig, model });
+  }
+
+  // OCO_API_KEY, OCO_API_URL and OCO_API_CUSTOM_HEADERS belong to
+  // OCO_AI_PROVIDER, other providers run with their defaults
+  const definition = getEngineDefinition(provider)!;
+  if (definition.requiredConfigKeys?.length) {
+    throw new Error(
+      `OCO_MODEL_FALLBACKS: ${provider}:${model} requires ${definition.requiredConfigKeys.join(
+        ', '
+      )}, which only apply to OCO_AI_PROVIDER=${selectedDefinition.name}`
+    );
+  }
+
+  return definition.create({
+    ...selectedEngineConfig,
+    apiKey: '',
+    baseURL: undefined,
+    customHeaders: undefined,
+    model
+  });
+}
+
+/**
+ * The tokenizer of OCO_AI_PROVIDER, fallback models are counted the same.
+ */
+export function getTokenizer(config: ConfigType = getConfig()): Tokenizer {
+  const definition = getSelectedEngineDefinition(config);
+
+  return (
+    definition.createTokenizer?.(getEngineConfig(config, definition)) ??
+    cl100kTokenizer
+  );
+}
+
+/**
+ * Requests are sent through the shared scheduler, responses are cached
+ * unless OCO_CACHE is off. With OCO_RECORD_FIXTURES the responses that end
+ * up being used are written for the replay engine, whichever fallback model
+ * or cache entry produced them.
+ */
 export function getEngine(): AiEngine {
   const config = getConfig();
+  let engine: AiEngine = new SchedulingEngine(
+    createEngine(config),
+    getRequestScheduler(config)
+  );
+
+  // fixtures are as fast as the cache and must not be shadowed by it
+  if (
+    config.OCO_CACHE !== false &&
+    config.OCO_AI_PROVIDER !== OCO_AI_PROVIDER_ENUM.REPLAY
+  ) {
+    engine = new CachingEngine(
+      engine,
+      getResponseCache(config),
+      config.OCO_AI_PROVIDER
+    );
+  }
 
-  const DEFAULT_CONFIG = {
-    model: config.OCO_MODEL!,
+  if (!config.OCO_RECORD_FIXTURES) return engine;
+
+  if (!config.OCO_FIXTURES_DIR) {
+    throw new Error(
+      'OCO_RECORD_FIXTURES requires OCO_FIXTURES_DIR to be set. Run `oco config set OCO_FIXTURES_DIR=<path>`'
+    );
+  }
+
+  return new RecordingEngine(engine, config.OCO_FIXTURES_DIR);
+}
+
+export function getEngineConfig(
+  config: ConfigType,
+  definition: EngineDefinition
+): AiEngineConfig {
+  return {
+    model: (config.OCO_MODEL || definition.defaultModel)!,
     maxTokensOutput: config.OCO_TOKENS_MAX_OUTPUT!,
     maxTokensInput: config.OCO_TOKENS_MAX_INPUT!,
     baseURL: config.OCO_API_URL!,
-    apiKey: config.OCO_API_KEY!
+    apiKey: config.OCO_API_KEY!,
+    customHeaders: parseCustomHeaders(config.OCO_API_CUSTOM_HEADERS),
+    temperature: config.OCO_TEMPERATURE,
+    topP: config.OCO_TOP_P,
+    topK: config.OCO_TOP_K,
+    stopSequences: parseStopSequences(config.OCO_STOP_SEQUENCES),
+    safetyThresholds: {
+      HARASSMENT: config.OCO_SAFETY_HARASSMENT,
+      HATE_SPEECH: config.OCO_SAFETY_HATE_SPEECH,
+      SEXUALLY_EXPLICIT: config.OCO_SAFETY_SEXUALLY_EXPLICIT,
+      DANGEROUS_CONTENT: config.OCO_SAFETY_DANGEROUS_CONTENT
+    },
+    fixturesDir: config.OCO_FIXTURES_DIR
   };
+}
+
+function createEngine(config: ConfigType): AiEngine {
+  const definition = getSelectedEngineDefinition(config);
+
+  const missingKeys = getMissingRequiredConfigKeys(config);
+  if (missingKeys.length) {
+    throw new Error(
+      `${definition.name} requires ${missingKeys.join(
+        ', '
+      )} to be set. Run \`oco config set ${missingKeys[0]}=<value>\``
+    );
+  }
+
+  const DEFAULT_CONFIG = getEngineConfig(config, definition);
+
+  // engines accepting any model have no default to fall back to
+  if (!DEFAULT_CONFIG.model) {
+    throw new Error(
+      `${definition.name} requires OCO_MODEL to be set. Run \`oco config set OCO_MODEL=<value>\``
+    );
+  }
+
+  const retryPolicy = getRetryPolicy(config);
+  const engine = new RetryingEngine(
+    definition.create(DEFAULT_CONFIG),
+    retryPolicy
+  );
+
+  const fallbacks = parseModelFallbacks(
+    config.OCO_MODEL_FALLBACKS,
+    definition.name
+  ).filter(
+    ({ provider, model }) =>
+      provider !== definition.name || model !== DEFAULT_CONFIG.model
+  );
+
+  if (!fallbacks.length) return engine;
 
-  return new GeminiEngine(DEFAULT_CONFIG);
+  return new FallbackEngine(
+    [
+      { label: DEFAULT_CONFIG.model, engine },
+      ...fallbacks.map((fallback) => ({
+        label:
+          fallback.provider === definition.name
+            ? fallback.model
+            : `${fallback.provider}:${fallback.model}`,
+        engine: new RetryingEngine(
+          createFallbackEngine(fallback, definition, DEFAULT_CONFIG),
+          retryPolicy
+        )
+      }))
+    ],
+    (fallback) => fallbackListeners.forEach((listener) => listener(fallback))
+  );
 }
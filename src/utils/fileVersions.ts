@@ -0,0 +1,60 @@
+import { execa } from 'execa';
+import { getPaths } from './parseDiff';
+
+export interface FileVersions {
+  oldPath: string;
+  newPath: string;
+  /** the file in HEAD, `''` when it was added */
+  oldContent: string;
+  /** the file in the index, `''` when it was deleted */
+  newContent: string;
+}
+
+// a path of HEAD or the index, empty when the file does not exist there
+const readBlob = async (object: string, gitDir: string): Promise<string> => {
+  try {
+    const { stdout } = await execa('git', ['show', object], {
+      cwd: gitDir,
+      stripFinalNewline: false
+    });
+    return stdout;
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * The paths of one file of a staged diff, undefined for text before the
+ * first `diff --git` line.
+ */
+export const getFileDiffPaths = (fileDiff: string) =>
+  fileDiff.startsWith('diff --git ')
+    ? getPaths(fileDiff.split('\n', 1))
+    : undefined;
+
+/**
+ * Reads the file of one part of `git diff --staged` before and after the
+ * change, from HEAD and the index.
+ */
+export const readFileVersions = async (
+  fileDiff: string,
+  gitDir: string
+): Promise<FileVersions> => {
+  const { oldPath, newPath } = getFileDiffPaths(fileDiff) ?? {};
+
+  const [oldContent, newContent] = await Promise.all([
+    !oldPath || /^new file mode/m.test(fileDiff)
+      ? ''
+      : readBlob(`HEAD:${oldPath}`, gitDir),
+    !newPath || /^deleted file mode/m.test(fileDiff)
+      ? ''
+      : readBlob(`:${newPath}`, gitDir)
+  ]);
+
+  return {
+    oldPath: oldPath ?? '',
+    newPath: newPath ?? '',
+    oldContent,
+    newContent
+  };
+};
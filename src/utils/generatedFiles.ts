@@ -0,0 +1,178 @@
+import { execa } from 'execa';
+import ignore from 'ignore';
+
+// lock files, bundles, minified and compiled outputs, vendored code and
+// images git does not see as binary, in .gitignore syntax
+export const DEFAULT_GENERATED_GLOBS = [
+  '*.lock',
+  '*-lock.json',
+  '*-lock.yaml',
+  'go.sum',
+  'dist/',
+  'build/',
+  'vendor/',
+  'node_modules/',
+  '*.min.js',
+  '*.min.css',
+  '*.map',
+  '*.pb.go',
+  '*_pb2.py',
+  '*_pb2_grpc.py',
+  '*_pb.js',
+  '*_pb.d.ts',
+  '*.svg'
+];
+
+export interface ExcludedFiles {
+  /** matched by a glob or marked linguist-generated/-vendored or -diff */
+  generated: string[];
+  /** files `git diff --numstat` shows no line counts for */
+  binary: string[];
+}
+
+/**
+ * Binary files of `git diff --numstat -z`, whose line counts are `-`.
+ * Renames list the old and the new path after an empty one, the new path
+ * is returned.
+ */
+export const parseBinaryFiles = (numstat: string): string[] => {
+  const fields = numstat.split('\0');
+  const binary: string[] = [];
+
+  for (let i = 0; i < fields.length - 1; i++) {
+    const [added, removed, path] = fields[i].split('\t');
+    if (path === undefined) continue;
+
+    // a rename, skip its old path
+    const file = path === '' ? fields[(i += 2)] : path;
+
+    if (added === '-' && removed === '-') binary.push(file);
+  }
+
+  return binary;
+};
+
+/**
+ * `git check-attr -z` output, `path\0attribute\0value\0` triples, by path.
+ */
+export const parseGitAttributes = (
+  output: string
+): Map<string, Record<string, string>> => {
+  const fields = output.split('\0');
+  const attributes = new Map<string, Record<string, string>>();
+
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    const [path, attribute, value] = fields.slice(i, i + 3);
+    attributes.set(path, { ...attributes.get(path), [attribute]: value });
+  }
+
+  return attributes;
+};
+
+const isSet = (value?: string) => value === 'set' || value === 'true';
+const isUnset = (value?: string) => value === 'unset' || value === 'false';
+
+/**
+ * Splits off the files not worth sending to the model. `.gitattributes`
+ * wins over the globs, `linguist-generated=false` keeps a file in the diff.
+ */
+export const classifyFiles = (
+  files: string[],
+  binaryFiles: string[],
+  attributes: Map<string, Record<string, string>>,
+  globs: string[]
+): ExcludedFiles => {
+  const matchesGlob = ignore().add(globs);
+  const excluded: ExcludedFiles = { generated: [], binary: [] };
+
+  for (const file of files) {
+    const fileAttributes = attributes.get(file) ?? {};
+    const generated = fileAttributes['linguist-generated'];
+    const vendored = fileAttributes['linguist-vendored'];
+
+    if (binaryFiles.includes(file)) {
+      excluded.binary.push(file);
+    } else if (
+      isSet(generated) ||
+      isSet(vendored) ||
+      isUnset(fileAttributes.diff)
+    ) {
+      excluded.generated.push(file);
+    } else if (
+      !isUnset(generated) &&
+      !isUnset(vendored) &&
+      matchesGlob.ignores(file)
+    ) {
+      excluded.generated.push(file);
+    }
+  }
+
+  return excluded;
+};
+
+/**
+ * Finds the staged files to leave out of the diff, see classifyFiles.
+ * @param globs - DEFAULT_GENERATED_GLOBS and OCO_GENERATED_GLOBS
+ */
+export const getExcludedFiles = async (
+  files: string[],
+  globs: string[],
+  gitDir: string
+): Promise<ExcludedFiles> => {
+  if (!files.length) return { generated: [], binary: [] };
+
+  const [{ stdout: numstat }, { stdout: checkAttr }] = await Promise.all([
+    execa('git', ['diff', '--staged', '--numstat', '-z', '--', ...files], {
+      cwd: gitDir
+    }),
+    execa(
+      'git',
+      [
+        'check-attr',
+        '-z',
+        'linguist-generated',
+        'linguist-vendored',
+        'diff',
+        '--',
+        ...files
+      ],
+      { cwd: gitDir }
+    )
+  ]);
+
+  return classifyFiles(
+    files,
+    parseBinaryFiles(numstat),
+    parseGitAttributes(checkAttr),
+    globs
+  );
+};
+
+const MAX_LISTED_FILES = 10;
+
+const listFiles = (files: string[]) =>
+  files.length > MAX_LISTED_FILES
+    ? `${files.slice(0, MAX_LISTED_FILES).join(', ')} and ${
+        files.length - MAX_LISTED_FILES
+      } more`
+    : files.join(', ');
+
+const formatFiles = (files: string[], kind: string) =>
+  `${files.length} ${kind} ${
+    files.length === 1 ? 'file' : 'files'
+  } changed: ${listFiles(files)}`;
+
+/**
+ * Tells the model about the files left out of the diff, so the message
+ * still covers them, e.g. `2 generated files changed: dist/app.js, yarn.lock`.
+ */
+export const formatExcludedFilesNote = ({
+  generated,
+  binary
+}: ExcludedFiles): string =>
+  [
+    generated.length ? formatFiles(generated, 'generated') : '',
+    binary.length ? formatFiles(binary, 'binary') : ''
+  ]
+    .filter(Boolean)
+    .join('\n');
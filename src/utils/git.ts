@@ -1,8 +1,16 @@
 import { execa } from 'execa';
-import { readFileSync } from 'fs';
-import ignore, { Ignore } from 'ignore';
-import { join } from 'path';
 import { outro, spinner } from '@clack/prompts';
+import { getConfig } from '../commands/config';
+import { condenseDiff, parseCondenseStrategies } from './condenseDiff';
+import { enrichDiff } from './diffSymbols';
+import {
+  DEFAULT_GENERATED_GLOBS,
+  formatExcludedFilesNote,
+  getExcludedFiles
+} from './generatedFiles';
+import { loadOpenCommitIgnore, OpenCommitIgnore } from './openCommitIgnore';
+import { preprocessDiff } from './preprocessDiff';
+import { formatRedactionSummary, redactDiffSecrets } from './redactSecrets';
 
 export const assertGitRepo = async () => {
   try {
@@ -16,19 +24,8 @@ export const assertGitRepo = async () => {
 //   (file) => `:(exclude)${file}`
 // );
 
-export const getOpenCommitIgnore = async (): Promise<Ignore> => {
-  const gitDir = await getGitDir();
-
-  const ig = ignore();
-
-  try {
-    ig.add(
-      readFileSync(join(gitDir, '.opencommitignore')).toString().split('\n')
-    );
-  } catch (e) {}
-
-  return ig;
-};
+export const getOpenCommitIgnore = async (): Promise<OpenCommitIgnore> =>
+  loadOpenCommitIgnore(await getGitDir());
 
 export const getCoreHooksPath = async (): Promise<string> => {
   const gitDir = await getGitDir();
@@ -43,9 +40,10 @@ export const getCoreHooksPath = async (): Promise<string> => {
 export const getStagedFiles = async (): Promise<string[]> => {
   const gitDir = await getGitDir();
 
+  // both sides of a rename, getDiff needs them to find it again
   const { stdout: files } = await execa(
     'git',
-    ['diff', '--name-only', '--cached', '--relative'],
+    ['diff', '--name-only', '--cached', '--relative', '--no-renames'],
     { cwd: gitDir }
   );
 
@@ -93,40 +91,74 @@ export const gitAdd = async ({ files }: { files: string[] }) => {
   gitAddSpinner.stop(`Staged ${files.length} files`);
 };
 
+const getGeneratedGlobs = (): string[] => [
+  ...DEFAULT_GENERATED_GLOBS,
+  ...(getConfig().OCO_GENERATED_GLOBS ?? '')
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter(Boolean)
+];
+
 export const getDiff = async ({ files }: { files: string[] }) => {
   const gitDir = await getGitDir();
 
-  const lockFiles = files.filter(
-    (file) =>
-      file.includes('.lock') ||
-      file.includes('-lock.') ||
-      file.includes('.svg') ||
-      file.includes('.png') ||
-      file.includes('.jpg') ||
-      file.includes('.jpeg') ||
-      file.includes('.webp') ||
-      file.includes('.gif')
+  // callers may pass files that getStagedFiles did not filter
+  const ig = await getOpenCommitIgnore();
+  const allowedFiles = files.filter((file) => !ig.ignores(file));
+
+  const excludedFiles = await getExcludedFiles(
+    allowedFiles,
+    getGeneratedGlobs(),
+    gitDir
   );
+  const excluded = [...excludedFiles.generated, ...excludedFiles.binary];
 
-  if (lockFiles.length) {
+  if (excluded.length) {
     outro(
-      `Some files are excluded by default from 'git diff'. No commit messages are generated for this files:\n${lockFiles.join(
+      `Some files are excluded from 'git diff' as generated or binary, only their names are sent:\n${excluded.join(
         '\n'
       )}`
     );
   }
 
-  const filesWithoutLocks = files.filter(
-    (file) => !file.includes('.lock') && !file.includes('-lock.')
+  const includedFiles = allowedFiles.filter((file) => !excluded.includes(file));
+
+  // without paths git would diff every staged file
+  const { stdout: diff } = includedFiles.length
+    ? await execa(
+        'git',
+        ['diff', '--staged', '--find-renames', '--', ...includedFiles],
+        {
+          cwd: gitDir
+        }
+      )
+    : { stdout: '' };
+
+  // git's own output, so renames and deletions are read from its headers
+  const condensedDiff = condenseDiff(
+    diff,
+    parseCondenseStrategies(getConfig().OCO_DIFF_CONDENSE)
   );
 
-  const { stdout: diff } = await execa(
-    'git',
-    ['diff', '--staged', '--', ...filesWithoutLocks],
-    { cwd: gitDir }
-  );
+  // notebooks and data files are described instead of diffed line by line
+  const preprocessedDiff = await preprocessDiff(condensedDiff, gitDir);
+
+  // hunks name the functions and classes they change
+  const enrichedDiff =
+    getConfig().OCO_DIFF_SYMBOLS !== false
+      ? await enrichDiff(preprocessedDiff, gitDir)
+      : preprocessedDiff;
+
+  // nothing that looks like a credential leaves the machine
+  const { diff: redactedDiff, redactions } = redactDiffSecrets(enrichedDiff);
+
+  if (redactions.length) {
+    outro(`🔒 ${formatRedactionSummary(redactions)}`);
+  }
+
+  const note = formatExcludedFilesNote(excludedFiles);
 
-  return diff;
+  return note ? `${redactedDiff}\n\n${note}`.trimStart() : redactedDiff;
 };
 
 export const getGitDir = async (): Promise<string> => {
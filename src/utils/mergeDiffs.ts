@@ -1,14 +1,25 @@
 import { tokenCount } from './tokenCount';
 
-export function mergeDiffs(arr: string[], maxStringLength: number): string[] {
+export function mergeDiffs(
+  arr: string[],
+  maxStringLength: number,
+  countTokens: (content: string) => number = tokenCount
+): string[] {
   const mergedArr: string[] = [];
   let currentItem: string = arr[0];
+  // items are counted once and summed, recounting the merged string on
+  // every step is quadratic in the size of the diff
+  let currentTokens = arr.length ? countTokens(currentItem) : 0;
   for (const item of arr.slice(1)) {
-    if (tokenCount(currentItem + item) <= maxStringLength) {
+    const itemTokens = countTokens(item);
+
+    if (currentTokens + itemTokens <= maxStringLength) {
       currentItem += item;
+      currentTokens += itemTokens;
     } else {
       mergedArr.push(currentItem);
       currentItem = item;
+      currentTokens = itemTokens;
     }
   }
 
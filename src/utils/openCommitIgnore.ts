@@ -0,0 +1,151 @@
+import { execa } from 'execa';
+import { existsSync, readFileSync } from 'fs';
+import ignore, { Ignore } from 'ignore';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+export const IGNORE_FILE_NAME = '.opencommitignore';
+
+// like git's ~/.config/git/ignore, applies to every repository
+export const GLOBAL_IGNORE_PATH = join(
+  homedir(),
+  '.config',
+  'opencommit',
+  'ignore'
+);
+
+export interface IgnoreRule {
+  /** the line as written, including a leading `!` */
+  pattern: string;
+  negated: boolean;
+  /** the file the rule comes from, e.g. `src/.opencommitignore` */
+  source: string;
+  line: number;
+  /** the directory the pattern is relative to, `''` for the repo root */
+  base: string;
+  matcher: Ignore;
+}
+
+/**
+ * Parses an ignore file in .gitignore syntax, skipping blank lines and
+ * comments. `\#` and `\!` escape a leading `#` or `!`.
+ */
+export const parseIgnoreRules = (
+  content: string,
+  source: string,
+  base: string = ''
+): IgnoreRule[] =>
+  content.split('\n').flatMap((rawLine, index): IgnoreRule[] => {
+    const pattern = rawLine.replace(/\r$/, '');
+    if (!pattern.trim() || pattern.startsWith('#')) return [];
+
+    const negated = pattern.startsWith('!');
+
+    return [
+      {
+        pattern,
+        negated,
+        source,
+        line: index + 1,
+        base,
+        matcher: ignore().add(negated ? pattern.slice(1) : pattern)
+      }
+    ];
+  });
+
+/**
+ * .gitignore semantics across several files: rules of deeper files win
+ * over the ones above them, within a file the last matching rule wins,
+ * and a file inside an ignored directory cannot be re-included.
+ */
+export class OpenCommitIgnore {
+  /** lowest precedence first */
+  rules: IgnoreRule[];
+
+  constructor(rules: IgnoreRule[]) {
+    this.rules = rules;
+  }
+
+  private findLastMatch(path: string): IgnoreRule | undefined {
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const { base, matcher } = this.rules[i];
+      const prefix = base ? `${base}/` : '';
+
+      // the base directory itself is matched by the files above it
+      if (
+        path.length > prefix.length &&
+        path.startsWith(prefix) &&
+        matcher.ignores(path.slice(prefix.length))
+      ) {
+        return this.rules[i];
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The rule deciding whether `file` is ignored: a non-negated one when it
+   * is, a negated one when it was re-included, undefined when none matches.
+   * @param file - relative to the repo root, directories end with `/`
+   */
+  explain(file: string): IgnoreRule | undefined {
+    const segments = file.split('/');
+
+    for (let depth = 1; depth < segments.length; depth++) {
+      const dir = `${segments.slice(0, depth).join('/')}/`;
+      if (dir === file) break;
+
+      const rule = this.findLastMatch(dir);
+      if (rule && !rule.negated) return rule;
+    }
+
+    return this.findLastMatch(file);
+  }
+
+  ignores(file: string): boolean {
+    const rule = this.explain(file);
+    return !!rule && !rule.negated;
+  }
+}
+
+const readRules = (path: string, source: string, base: string) =>
+  existsSync(path)
+    ? parseIgnoreRules(readFileSync(path, 'utf8'), source, base)
+    : [];
+
+const getDepth = (base: string) => (base ? base.split('/').length : 0);
+
+/**
+ * Collects the global ignore file, the root `.opencommitignore` and the
+ * ones in subdirectories, tracked or not, unless git ignores them.
+ */
+export const loadOpenCommitIgnore = async (
+  gitDir: string,
+  globalIgnorePath: string = GLOBAL_IGNORE_PATH
+): Promise<OpenCommitIgnore> => {
+  const { stdout } = await execa(
+    'git',
+    [
+      'ls-files',
+      '--cached',
+      '--others',
+      '--exclude-standard',
+      '--',
+      `:(glob)*/**/${IGNORE_FILE_NAME}`
+    ],
+    { cwd: gitDir }
+  );
+
+  const nestedFiles = [...new Set(stdout.split('\n').filter(Boolean))]
+    .map((file) => ({ file, base: dirname(file) }))
+    .sort((a, b) => getDepth(a.base) - getDepth(b.base));
+
+  return new OpenCommitIgnore([
+    ...readRules(globalIgnorePath, globalIgnorePath, ''),
+    ...readRules(join(gitDir, IGNORE_FILE_NAME), IGNORE_FILE_NAME, ''),
+    ...nestedFiles.flatMap(({ file, base }) =>
+      readRules(join(gitDir, file), file, base)
+    )
+  ]);
+};
@@ -0,0 +1,136 @@
+export interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  /** the text after the second `@@`, e.g. the enclosing function */
+  section: string;
+  lines: string[];
+}
+
+export interface FileDiff {
+  /** `diff --git` up to the first hunk */
+  header: string[];
+  hunks: Hunk[];
+  /** anything after the last hunk */
+  trailer: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+/**
+ * Splits a `git diff` into one part per file, each starting with its
+ * `diff --git` line. Text before the first file is a part of its own.
+ */
+export const splitFileDiffs = (diff: string): string[] =>
+  diff.split(/(?=^diff --git )/m);
+
+/**
+ * Parses the lines of one file of a `git diff`, without the newline the
+ * file ends with.
+ */
+export const parseFileDiff = (lines: string[]): FileDiff => {
+  const firstHunk = lines.findIndex((line) => HUNK_HEADER.test(line));
+  if (firstHunk === -1) return { header: lines, hunks: [], trailer: [] };
+
+  const file: FileDiff = {
+    header: lines.slice(0, firstHunk),
+    hunks: [],
+    trailer: []
+  };
+
+  let i = firstHunk;
+  while (i < lines.length) {
+    const match = lines[i].match(HUNK_HEADER);
+    if (!match) break;
+
+    const [, oldStart, oldCount = '1', newStart, newCount = '1', section] =
+      match;
+    const hunk: Hunk = {
+      oldStart: Number(oldStart),
+      oldCount: Number(oldCount),
+      newStart: Number(newStart),
+      newCount: Number(newCount),
+      section,
+      lines: []
+    };
+    let oldLeft = hunk.oldCount;
+    let newLeft = hunk.newCount;
+
+    // the counts of the header tell where the hunk ends
+    for (i++; i < lines.length; i++) {
+      const line = lines[i];
+
+      if (line.startsWith('\\')) {
+        hunk.lines.push(line);
+      } else if ((oldLeft > 0 || newLeft > 0) && /^[ +-]/.test(line)) {
+        if (line[0] !== '+') oldLeft--;
+        if (line[0] !== '-') newLeft--;
+        hunk.lines.push(line);
+      } else {
+        break;
+      }
+    }
+
+    file.hunks.push(hunk);
+  }
+
+  file.trailer = lines.slice(i);
+  return file;
+};
+
+// git leaves out counts of 1
+const formatRange = (start: number, count: number) =>
+  count === 1 ? `${start}` : `${start},${count}`;
+
+export const formatHunkHeader = ({
+  oldStart,
+  oldCount,
+  newStart,
+  newCount,
+  section
+}: Hunk) =>
+  `@@ -${formatRange(oldStart, oldCount)} +${formatRange(
+    newStart,
+    newCount
+  )} @@${section}`;
+
+export const formatFileDiff = ({
+  header,
+  hunks,
+  trailer
+}: FileDiff): string[] => [
+  ...header,
+  ...hunks.flatMap((hunk) => [formatHunkHeader(hunk), ...hunk.lines]),
+  ...trailer
+];
+
+/**
+ * Applies `transform` to the parsed file of `fileDiff`, keeping the
+ * newline it ends with. Parts not starting with `diff --git` are returned
+ * as they are.
+ */
+export const mapFileDiff = (
+  fileDiff: string,
+  transform: (file: FileDiff) => FileDiff
+): string => {
+  const lines = fileDiff.split('\n');
+  // files but the last end with a newline
+  const ending = lines[lines.length - 1] === '' ? lines.pop() : undefined;
+
+  if (!lines[0]?.startsWith('diff --git ')) return fileDiff;
+
+  const formatted = formatFileDiff(transform(parseFileDiff(lines)));
+  if (ending !== undefined) formatted.push(ending);
+
+  return formatted.join('\n');
+};
+
+export const isChange = (line?: string) =>
+  line?.[0] === '+' || line?.[0] === '-';
+
+export const getPaths = (header: string[]) => {
+  const [, oldPath, newPath] =
+    header[0].match(/^diff --git a\/(.+) b\/(.+)$/) ?? [];
+  return { oldPath, newPath };
+};
@@ -0,0 +1,46 @@
+import { getPreprocessor } from '../preprocessors/registry';
+import { getFileDiffPaths, readFileVersions } from './fileVersions';
+import { mapFileDiff, splitFileDiffs } from './parseDiff';
+
+/**
+ * Whether `path` is sent as git prints it, like SQL migrations.
+ */
+export const isVerbatimFile = (path?: string): boolean =>
+  !!getPreprocessor(path)?.verbatim;
+
+/**
+ * Whether a registered preprocessor describes `path` instead of its hunks.
+ */
+export const isPreprocessedFile = (path?: string): boolean =>
+  !!getPreprocessor(path)?.preprocess;
+
+/**
+ * Replaces the hunks of the staged files a registered preprocessor knows,
+ * like notebooks and data files, with its description of the change,
+ * keeping their `diff --git` headers. Files without hunks, e.g. renames
+ * and deletions condenseDiff summarized, are left as they are.
+ */
+export const preprocessDiff = async (
+  diff: string,
+  gitDir: string
+): Promise<string> => {
+  const fileDiffs = await Promise.all(
+    splitFileDiffs(diff).map(async (fileDiff) => {
+      const preprocess = getPreprocessor(
+        getFileDiffPaths(fileDiff)?.newPath
+      )?.preprocess;
+      if (!preprocess || !/^@@ /m.test(fileDiff)) return fileDiff;
+
+      const description = preprocess(await readFileVersions(fileDiff, gitDir));
+      if (!description) return fileDiff;
+
+      return mapFileDiff(fileDiff, (file) => ({
+        ...file,
+        header: [...file.header, ...description],
+        hunks: []
+      }));
+    })
+  );
+
+  return fileDiffs.join('');
+};
@@ -0,0 +1,62 @@
+import { ProxyAgent, setGlobalDispatcher } from 'undici';
+
+const DEFAULT_PORTS: Record<string, string> = {
+  'http:': '80',
+  'https:': '443'
+};
+
+const isExcludedByNoProxy = (hostname: string, port: string): boolean => {
+  const noProxy = process.env.NO_PROXY || process.env.no_proxy;
+  if (!noProxy) return false;
+
+  return noProxy
+    .split(/[,\s]+/)
+    .filter(Boolean)
+    .some((entry) => {
+      if (entry === '*') return true;
+
+      const [entryHost, entryPort] = entry.split(':');
+      if (entryPort && entryPort !== port) return false;
+
+      const host = entryHost.replace(/^\*?\./, '').toLowerCase();
+      return hostname === host || hostname.endsWith(`.${host}`);
+    });
+};
+
+/**
+ * Returns the proxy from HTTPS_PROXY (or HTTP_PROXY for http URLs) that
+ * applies to `url`, honoring NO_PROXY.
+ */
+export const getProxyForUrl = (url: string): string | undefined => {
+  const { protocol, hostname, port } = new URL(url);
+
+  const proxy =
+    protocol === 'https:'
+      ? process.env.HTTPS_PROXY || process.env.https_proxy
+      : process.env.HTTP_PROXY || process.env.http_proxy;
+
+  if (!proxy) return undefined;
+
+  if (
+    isExcludedByNoProxy(hostname.toLowerCase(), port || DEFAULT_PORTS[protocol])
+  )
+    return undefined;
+
+  return proxy;
+};
+
+let configuredProxy: string | undefined;
+
+/**
+ * Routes the global `fetch` through the proxy configured for `url`.
+ * axios honors the proxy env variables by itself, but the fetch-based
+ * Google SDK does not.
+ */
+export const configureFetchProxy = (url: string) => {
+  const proxy = getProxyForUrl(url);
+
+  if (!proxy || proxy === configuredProxy) return;
+
+  setGlobalDispatcher(new ProxyAgent(proxy));
+  configuredProxy = proxy;
+};
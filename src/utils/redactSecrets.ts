@@ -0,0 +1,202 @@
+import {
+  ConfigType,
+  getConfig,
+  OCO_SECRET_REDACTION_ENUM
+} from '../commands/config';
+
+export interface SecretPattern {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface Redaction {
+  name: string;
+  /** the file of the diff the secret was found in */
+  file?: string;
+}
+
+export interface RedactionResult {
+  diff: string;
+  redactions: Redaction[];
+}
+
+export const SECRET_PATTERNS: SecretPattern[] = [
+  {
+    name: 'private key',
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  },
+  { name: 'AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  {
+    name: 'Azure storage key',
+    pattern: /AccountKey=[A-Za-z0-9+/]{40,}={0,2}/g
+  },
+  {
+    name: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g
+  },
+  { name: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { name: 'Stripe key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { name: 'OpenAI key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}\b/g },
+  {
+    name: 'JWT',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g
+  }
+];
+
+const HIGH_ENTROPY_NAME = 'high-entropy string';
+
+// base64 and base62 runs, checked for entropy one by one. `=` only pads
+// the end, so `KEY=value` stays two candidates, and a leading `+` is the
+// diff's own marker
+const TOKEN_CANDIDATE = /[A-Za-z0-9/_-][A-Za-z0-9+/_-]{19,}={0,2}/g;
+
+// random base62 strings of 20 characters score about 4.3 bits per
+// character, camelCase identifiers and hex hashes stay below 4
+const MIN_ENTROPY = 4.2;
+
+const getEntropy = (value: string): number => {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+};
+
+/**
+ * Mixed case letters and digits with high Shannon entropy, as generated
+ * keys have, while identifiers, paths and hex hashes do not.
+ */
+export const isHighEntropyString = (value: string): boolean =>
+  /[a-z]/.test(value) &&
+  /[A-Z]/.test(value) &&
+  /[0-9]/.test(value) &&
+  getEntropy(value) >= MIN_ENTROPY;
+
+/**
+ * The built-in patterns after the ones from OCO_SECRET_PATTERNS, so
+ * secrets matching both are reported by the user's name.
+ */
+export const getSecretPatterns = (
+  customPatterns: Record<string, string> = {}
+): SecretPattern[] => [
+  ...Object.entries(customPatterns).map(([name, source]) => ({
+    name,
+    pattern: new RegExp(source, 'g')
+  })),
+  ...SECRET_PATTERNS
+];
+
+const getPlaceholder = (name: string) => `[REDACTED ${name}]`;
+
+// `diff --git a/<file> b/<file>` and the index line, before any content
+const FILE_HEADER = /^diff --git a\/(.+?) b\/.*\n(?:index .*\n)?/;
+
+/**
+ * Replaces secrets in `diff` with placeholders naming their kind, file
+ * by file so every redaction is reported with its file.
+ */
+export const redactSecrets = (
+  diff: string,
+  patterns: SecretPattern[] = SECRET_PATTERNS
+): RedactionResult => {
+  const redactions: Redaction[] = [];
+
+  const redactFile = (fileDiff: string): string => {
+    const header = fileDiff.match(FILE_HEADER);
+    const file = header?.[1];
+
+    const redact = (name: string) => {
+      redactions.push({ name, file });
+      return getPlaceholder(name);
+    };
+
+    let content = fileDiff.slice(header?.[0].length ?? 0);
+
+    for (const { name, pattern } of patterns) {
+      content = content.replace(pattern, () => redact(name));
+    }
+
+    content = content.replace(TOKEN_CANDIDATE, (candidate) =>
+      isHighEntropyString(candidate) ? redact(HIGH_ENTROPY_NAME) : candidate
+    );
+
+    return (header?.[0] ?? '') + content;
+  };
+
+  return {
+    diff: diff
+      .split(/(?=^diff --git )/m)
+      .map(redactFile)
+      .join(''),
+    redactions
+  };
+};
+
+const countSecrets = (redactions: Redaction[]) =>
+  `${redactions.length} ${redactions.length === 1 ? 'secret' : 'secrets'}`;
+
+// one line per file, e.g. `  .env: 2× AWS access key, JWT`
+const formatRedactedFiles = (redactions: Redaction[]): string => {
+  const byFile = new Map<string, Map<string, number>>();
+
+  for (const { name, file = 'unknown file' } of redactions) {
+    const names = byFile.get(file) ?? new Map<string, number>();
+    names.set(name, (names.get(name) ?? 0) + 1);
+    byFile.set(file, names);
+  }
+
+  return [...byFile]
+    .map(
+      ([file, names]) =>
+        `  ${file}: ${[...names]
+          .map(([name, count]) => (count > 1 ? `${count}× ${name}` : name))
+          .join(', ')}`
+    )
+    .join('\n');
+};
+
+export const formatRedactionSummary = (redactions: Redaction[]): string =>
+  `Redacted ${countSecrets(
+    redactions
+  )} before sending the diff:\n${formatRedactedFiles(redactions)}`;
+
+/**
+ * Redacts `diff` as OCO_SECRET_REDACTION says: with placeholders by
+ * default, not at all when off.
+ * @throws when secrets are found and OCO_SECRET_REDACTION is abort
+ */
+export const redactDiffSecrets = (
+  diff: string,
+  config: ConfigType = getConfig()
+): RedactionResult => {
+  if (config.OCO_SECRET_REDACTION === OCO_SECRET_REDACTION_ENUM.OFF) {
+    return { diff, redactions: [] };
+  }
+
+  const result = redactSecrets(
+    diff,
+    getSecretPatterns(config.OCO_SECRET_PATTERNS)
+  );
+
+  if (
+    result.redactions.length &&
+    config.OCO_SECRET_REDACTION === OCO_SECRET_REDACTION_ENUM.ABORT
+  ) {
+    throw new Error(
+      `Found ${countSecrets(
+        result.redactions
+      )} in the diff, nothing was sent:\n${formatRedactedFiles(
+        result.redactions
+      )}\nRemove them from the staged changes, or set OCO_SECRET_REDACTION=redact to send the diff with placeholders`
+    );
+  }
+
+  return result;
+};
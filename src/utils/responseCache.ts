@@ -0,0 +1,142 @@
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { ConfigType, DEFAULT_CONFIG, getConfig } from '../commands/config';
+
+export const CACHE_DIR = join(homedir(), '.cache', 'opencommit');
+
+export interface ResponseCacheOptions {
+  dir: string;
+  /** entries older than this are ignored and removed */
+  ttlMs: number;
+  /** the oldest entries are removed once the cache grows beyond this */
+  maxBytes: number;
+}
+
+export interface ResponseCacheStats {
+  dir: string;
+  entries: number;
+  bytes: number;
+  expired: number;
+}
+
+interface CacheFile {
+  path: string;
+  bytes: number;
+  mtimeMs: number;
+}
+
+/**
+ * Stores JSON values in one file per key, expiring them by modification
+ * time. Callers pick collision-free keys, e.g. hashes.
+ */
+export class ResponseCache {
+  options: ResponseCacheOptions;
+
+  constructor(options: ResponseCacheOptions) {
+    this.options = options;
+  }
+
+  private getPath(key: string) {
+    return join(this.options.dir, `${key}.json`);
+  }
+
+  private isExpired({ mtimeMs }: { mtimeMs: number }) {
+    return Date.now() - mtimeMs > this.options.ttlMs;
+  }
+
+  private async listFiles(): Promise<CacheFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.options.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map(async (name) => {
+          const path = join(this.options.dir, name);
+          // another process may have pruned it in the meantime
+          const stats = await fs.stat(path).catch(() => undefined);
+          return stats && { path, bytes: stats.size, mtimeMs: stats.mtimeMs };
+        })
+    );
+
+    return files.filter((file): file is CacheFile => !!file);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const path = this.getPath(key);
+
+    try {
+      const stats = await fs.stat(path);
+
+      if (this.isExpired(stats)) {
+        await fs.rm(path, { force: true });
+        return undefined;
+      }
+
+      return JSON.parse(await fs.readFile(path, 'utf8')) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await fs.mkdir(this.options.dir, { recursive: true });
+    await fs.writeFile(this.getPath(key), JSON.stringify(value));
+    await this.prune();
+  }
+
+  /**
+   * Removes expired entries, then the oldest ones until the cache fits
+   * into `maxBytes`.
+   */
+  async prune(): Promise<void> {
+    const files = (await this.listFiles()).sort(
+      (a, b) => b.mtimeMs - a.mtimeMs
+    );
+
+    let bytes = 0;
+    for (const file of files) {
+      bytes += file.bytes;
+
+      if (this.isExpired(file) || bytes > this.options.maxBytes) {
+        await fs.rm(file.path, { force: true });
+      }
+    }
+  }
+
+  /**
+   * @returns the number of removed entries
+   */
+  async clear(): Promise<number> {
+    const files = await this.listFiles();
+    await Promise.all(files.map(({ path }) => fs.rm(path, { force: true })));
+    return files.length;
+  }
+
+  async stats(): Promise<ResponseCacheStats> {
+    const files = await this.listFiles();
+
+    return {
+      dir: this.options.dir,
+      entries: files.length,
+      bytes: files.reduce((total, file) => total + file.bytes, 0),
+      expired: files.filter((file) => this.isExpired(file)).length
+    };
+  }
+}
+
+export const getResponseCache = (
+  config: ConfigType = getConfig()
+): ResponseCache =>
+  new ResponseCache({
+    dir: CACHE_DIR,
+    ttlMs: config.OCO_CACHE_TTL_MS ?? DEFAULT_CONFIG.OCO_CACHE_TTL_MS,
+    maxBytes:
+      (config.OCO_CACHE_MAX_MB ?? DEFAULT_CONFIG.OCO_CACHE_MAX_MB) * 1024 * 1024
+  });
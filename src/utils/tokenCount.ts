@@ -1,13 +1,59 @@
 import cl100k_base from '@dqbd/tiktoken/encoders/cl100k_base.json';
 import { Tiktoken } from '@dqbd/tiktoken/lite';
+import { Tokenizer } from '../engine/Engine';
 
+// building the encoder parses the whole BPE table, which takes far longer
+// than encoding a line, so one instance lives as long as the process
+let encoding: Tiktoken | undefined;
+
+const getEncoding = (): Tiktoken => {
+  if (!encoding) {
+    encoding = new Tiktoken(
+      cl100k_base.bpe_ranks,
+      cl100k_base.special_tokens,
+      cl100k_base.pat_str
+    );
+  }
+
+  return encoding;
+};
+
+// encode() checks for special tokens on every call, diffs are plain text
+// and may well contain `<|endoftext|>`
 export function tokenCount(content: string): number {
-  const encoding = new Tiktoken(
-    cl100k_base.bpe_ranks,
-    cl100k_base.special_tokens,
-    cl100k_base.pat_str
+  return getEncoding().encode_ordinary(content).length;
+}
+
+export const cl100kTokenizer: Tokenizer = {
+  countTokens: tokenCount,
+  countModelTokens: async (content) => tokenCount(content)
+};
+
+/**
+ * Rough count for models without a local tokenizer: punctuation mostly
+ * becomes a token of its own, words and numbers take one per ~4 characters.
+ * Errs on the high side for code, so chunks rather stay below the limit.
+ */
+export function estimateTokenCount(content: string): number {
+  const pieces: string[] =
+    content.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) ?? [];
+  return pieces.reduce(
+    (count, piece) => count + Math.ceil(piece.length / 4),
+    0
   );
-  const tokens = encoding.encode(content);
-  encoding.free();
-  return tokens.length;
+}
+
+/**
+ * Scales `countTokens` by how far it was off for `sample`, whose exact count
+ * is `sampleTokens`. Lets a local estimate split a diff the model counted.
+ */
+export function calibrateTokenCount(
+  countTokens: (content: string) => number,
+  sample: string,
+  sampleTokens: number
+): (content: string) => number {
+  const ratio = sampleTokens / Math.max(countTokens(sample), 1);
+  if (ratio === 1) return countTokens;
+
+  return (content) => Math.ceil(countTokens(content) * ratio);
 }
@@ -0,0 +1,200 @@
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join } from 'path';
+import { TokenUsage } from '../engine/Engine';
+import { getGitDir } from './git';
+
+export const USAGE_LEDGER_PATH = join(homedir(), '.opencommit-usage.jsonl');
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// list prices of the paid tier, OCO_MODEL_PRICES overrides and extends them
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 }
+};
+
+export interface ModelUsage {
+  model: string;
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageEntry extends ModelUsage {
+  /** ISO timestamp of the run */
+  timestamp: string;
+  /** name of the repository's top-level directory */
+  repo: string;
+}
+
+/**
+ * Sums the usage of every request of a run per model, e.g. all chunks of a
+ * big diff. `record` is passed on as GenerateOptions.onUsage.
+ */
+export class UsageTracker {
+  private usage = new Map<string, ModelUsage>();
+
+  record = ({ model, promptTokens, outputTokens }: TokenUsage) => {
+    const usage = this.usage.get(model) ?? {
+      model,
+      requests: 0,
+      promptTokens: 0,
+      outputTokens: 0
+    };
+
+    usage.requests++;
+    usage.promptTokens += promptTokens;
+    usage.outputTokens += outputTokens;
+    this.usage.set(model, usage);
+  };
+
+  getUsage(): ModelUsage[] {
+    return [...this.usage.values()];
+  }
+}
+
+export const getModelPrices = (
+  prices?: Record<string, ModelPrice>
+): Record<string, ModelPrice> => ({ ...DEFAULT_MODEL_PRICES, ...prices });
+
+/**
+ * @returns the cost in USD, undefined for models without a price
+ */
+export const getUsageCost = (
+  { model, promptTokens, outputTokens }: ModelUsage,
+  prices: Record<string, ModelPrice>
+): number | undefined => {
+  const price = prices[model];
+  if (!price) return undefined;
+
+  return (promptTokens * price.input + outputTokens * price.output) / 1e6;
+};
+
+export const formatTokens = (tokens: number) => tokens.toLocaleString('en-US');
+
+export const formatCost = (cost: number) =>
+  `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+/**
+ * e.g. `2 requests to gemini-2.5-flash: 12,345 input + 210 output tokens, ~$0.0042`
+ */
+export const formatUsageSummary = (
+  usage: ModelUsage[],
+  prices: Record<string, ModelPrice>
+): string => {
+  const requests = usage.reduce((total, { requests }) => total + requests, 0);
+  const promptTokens = usage.reduce((total, u) => total + u.promptTokens, 0);
+  const outputTokens = usage.reduce((total, u) => total + u.outputTokens, 0);
+  const costs = usage.map((u) => getUsageCost(u, prices));
+
+  const summary = `${requests} ${
+    requests === 1 ? 'request' : 'requests'
+  } to ${usage.map(({ model }) => model).join(', ')}: ${formatTokens(
+    promptTokens
+  )} input + ${formatTokens(outputTokens)} output tokens`;
+
+  // a partial sum would understate the cost
+  if (costs.some((cost) => cost === undefined)) return summary;
+
+  return `${summary}, ~${formatCost(
+    costs.reduce((total, cost) => total! + cost!, 0)!
+  )}`;
+};
+
+export const appendUsage = async (
+  entries: UsageEntry[],
+  ledgerPath: string = USAGE_LEDGER_PATH
+): Promise<void> => {
+  if (!entries.length) return;
+
+  await fs.mkdir(dirname(ledgerPath), { recursive: true });
+  await fs.appendFile(
+    ledgerPath,
+    entries.map((entry) => JSON.stringify(entry) + '\n').join('')
+  );
+};
+
+/**
+ * Appends the usage of a run in the current repository to the ledger. The
+ * ledger is bookkeeping, failing to write it must not fail the commit.
+ */
+export const recordUsage = async (usage: ModelUsage[]): Promise<void> => {
+  try {
+    const repo = basename(await getGitDir());
+    const timestamp = new Date().toISOString();
+
+    await appendUsage(usage.map((entry) => ({ timestamp, repo, ...entry })));
+  } catch {}
+};
+
+/**
+ * Reads the ledger, skipping lines a crashed run may have cut off.
+ */
+export const readUsage = async (
+  ledgerPath: string = USAGE_LEDGER_PATH
+): Promise<UsageEntry[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(ledgerPath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return content.split('\n').flatMap((line) => {
+    try {
+      return line.trim() ? [JSON.parse(line) as UsageEntry] : [];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export type UsageGrouping = 'day' | 'repo' | 'model';
+
+export interface UsageRow {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  /** sum over the models with a price */
+  cost: number;
+}
+
+const getGroupKey = (entry: UsageEntry, by: UsageGrouping) =>
+  by === 'day' ? entry.timestamp.slice(0, 10) : entry[by];
+
+export const summarizeUsage = (
+  entries: UsageEntry[],
+  by: UsageGrouping,
+  prices: Record<string, ModelPrice>
+): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+
+  for (const entry of entries) {
+    const key = getGroupKey(entry, by);
+    const row = rows.get(key) ?? {
+      key,
+      requests: 0,
+      promptTokens: 0,
+      outputTokens: 0,
+      cost: 0
+    };
+
+    row.requests += entry.requests;
+    row.promptTokens += entry.promptTokens;
+    row.outputTokens += entry.outputTokens;
+    row.cost += getUsageCost(entry, prices) ?? 0;
+    rows.set(key, row);
+  }
+
+  return [...rows.values()].sort((a, b) => a.key.localeCompare(b.key));
+};
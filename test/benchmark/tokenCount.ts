@@ -0,0 +1,61 @@
+/**
+ * Times token counting and diff splitting on a 20k-line diff, run with
+ * `npm run benchmark`. Timings depend on the machine, so they are printed
+ * rather than asserted, the unit tests check the behavior behind them.
+ */
+import cl100k_base from '@dqbd/tiktoken/encoders/cl100k_base.json';
+import { Tiktoken } from '@dqbd/tiktoken/lite';
+import { performance } from 'perf_hooks';
+import { getDiffParts } from '../../src/generateCommitMessageFromGitDiff';
+import { tokenCount } from '../../src/utils/tokenCount';
+
+// a 20k-line refactor, every line differs
+const lines = Array.from(
+  { length: 20_000 },
+  (_, i) => `+  const value${i} = compute(input${i}, options.factor * ${i});`
+);
+const createDiff = (lines: string[]) =>
+  `diff --git a/src/big.ts b/src/big.ts\n@@ -1 +1,${
+    lines.length
+  } @@\n${lines.join('\n')}\n`;
+
+const time = (run: () => unknown) => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+const format = (ms: number) => `${ms.toFixed(1)} ms`;
+
+const sample = lines.slice(0, 10);
+tokenCount('warm up');
+
+// what tokenCount did before, building an encoder per call
+const uncached = time(() =>
+  sample.forEach((line) => {
+    const encoding = new Tiktoken(
+      cl100k_base.bpe_ranks,
+      cl100k_base.special_tokens,
+      cl100k_base.pat_str
+    );
+    encoding.encode(line);
+    encoding.free();
+  })
+);
+const cached = time(() => sample.forEach((line) => tokenCount(line)));
+
+const split = (lines: string[]) =>
+  time(() => getDiffParts(createDiff(lines), 2000, tokenCount));
+
+const half = split(lines.slice(0, lines.length / 2));
+const full = split(lines);
+
+console.table({
+  [`count ${sample.length} lines, an encoder per call`]: format(uncached),
+  [`count ${sample.length} lines, cached encoder`]: format(cached),
+  [`split ${lines.length / 2} lines`]: format(half),
+  // linear counting takes about twice as long, quadratic four times
+  [`split ${lines.length} lines`]: `${format(full)} (${(full / half).toFixed(
+    1
+  )}x)`
+});
@@ -1,7 +1,7 @@
 import path from 'path';
 import 'cli-testing-library/extend-expect';
 import { exec } from 'child_process';
-import { prepareTempDir } from './utils';
+import { FIXTURES_DIR, prepareTempDir } from './utils';
 import { promisify } from 'util';
 import { render } from 'cli-testing-library';
 import { resolve } from 'path';
@@ -93,7 +93,7 @@ describe('cli flow to push git branch', () => {
     await render('git', ['add index.ts'], { cwd: gitDir });
 
     const { queryByText, findByText, userEvent } = await render(
-      `OCO_AI_PROVIDER='test' OCO_GITPUSH='false' node`,
+      `OCO_AI_PROVIDER='replay' OCO_FIXTURES_DIR='${FIXTURES_DIR}' OCO_GITPUSH='false' node`,
       [resolve('./out/cli.cjs')],
       { cwd: gitDir }
     );
@@ -125,7 +125,7 @@ describe('cli flow to push git branch', () => {
     await render('git', ['add index.ts'], { cwd: gitDir });
 
     const { queryByText, findByText, userEvent } = await render(
-      `OCO_AI_PROVIDER='test' OCO_GITPUSH='true' node`,
+      `OCO_AI_PROVIDER='replay' OCO_FIXTURES_DIR='${FIXTURES_DIR}' OCO_GITPUSH='true' node`,
       [resolve('./out/cli.cjs')],
       { cwd: gitDir }
     );
@@ -158,7 +158,7 @@ describe('cli flow to push git branch', () => {
     await render('git', ['add index.ts'], { cwd: gitDir });
 
     const { findByText, userEvent } = await render(
-      `OCO_AI_PROVIDER='test' OCO_GITPUSH='true' node`,
+      `OCO_AI_PROVIDER='replay' OCO_FIXTURES_DIR='${FIXTURES_DIR}' OCO_GITPUSH='true' node`,
       [resolve('./out/cli.cjs')],
       { cwd: gitDir }
     );
@@ -186,7 +186,7 @@ describe('cli flow to push git branch', () => {
     await render('git', ['add index.ts'], { cwd: gitDir });
 
     const { findByText, userEvent } = await render(
-      `OCO_AI_PROVIDER='test' OCO_GITPUSH='true' node`,
+      `OCO_AI_PROVIDER='replay' OCO_FIXTURES_DIR='${FIXTURES_DIR}' OCO_GITPUSH='true' node`,
       [resolve('./out/cli.cjs')],
       { cwd: gitDir }
     );
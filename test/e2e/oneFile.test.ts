@@ -1,7 +1,7 @@
 import { resolve } from 'path'
 import { render } from 'cli-testing-library'
 import 'cli-testing-library/extend-expect';
-import { prepareEnvironment } from './utils';
+import { FIXTURES_DIR, prepareEnvironment } from './utils';
 
 it('cli flow to generate commit message for 1 new file (staged)', async () => {
   const { gitDir, cleanup } = await prepareEnvironment();
@@ -9,7 +9,7 @@ it('cli flow to generate commit message for 1 new file (staged)', async () => {
   await render('echo' ,[`'console.log("Hello World");' > index.ts`], { cwd: gitDir });
   await render('git' ,['add index.ts'], { cwd: gitDir });
 
-  const { queryByText, findByText, userEvent } = await render(`OCO_AI_PROVIDER='test' OCO_GITPUSH='true' node`, [resolve('./out/cli.cjs')], { cwd: gitDir });
+  const { queryByText, findByText, userEvent } = await render(`OCO_AI_PROVIDER='replay' OCO_FIXTURES_DIR='${FIXTURES_DIR}' OCO_GITPUSH='true' node`, [resolve('./out/cli.cjs')], { cwd: gitDir });
   expect(await queryByText('No files are staged')).not.toBeInTheConsole();
   expect(await queryByText('Do you want to stage all files and generate commit message?')).not.toBeInTheConsole();
 
@@ -34,7 +34,7 @@ it('cli flow to generate commit message for 1 changed file (not staged)', async
 
   await render('echo' ,[`'console.log("Good night World");' >> index.ts`], { cwd: gitDir });
 
-  const { findByText, userEvent } = await render(`OCO_AI_PROVIDER='test' OCO_GITPUSH='true' node`, [resolve('./out/cli.cjs')], { cwd: gitDir });
+  const { findByText, userEvent } = await render(`OCO_AI_PROVIDER='replay' OCO_FIXTURES_DIR='${FIXTURES_DIR}' OCO_GITPUSH='true' node`, [resolve('./out/cli.cjs')], { cwd: gitDir });
 
   expect(await findByText('No files are staged')).toBeInTheConsole();
   expect(await findByText('Do you want to stage all files and generate commit message?')).toBeInTheConsole();
@@ -30,6 +30,12 @@ export const prepareEnvironment = async (): Promise<{
   }
 }
 
+/**
+ * Recorded responses served by OCO_AI_PROVIDER='replay'. They are keyed by
+ * the prompt, re-record them with OCO_RECORD_FIXTURES=true when it changes
+ */
+export const FIXTURES_DIR = path.resolve('./test/e2e/fixtures');
+
 export const prepareTempDir = async(): Promise<string> => {
   return await fsMakeTempDir(path.join(tmpdir(), 'opencommit-test-'));
 }
@@ -0,0 +1,52 @@
+import { jest } from '@jest/globals';
+import {
+  CANDIDATES_SAMPLING,
+  GenerateOptions,
+  Message
+} from '../../src/engine/Engine';
+
+// like Ollama: no candidates method, the same message unless sampled
+const generateCommitMessage =
+  jest.fn<
+    (messages: Array<Message>, options?: GenerateOptions) => Promise<string>
+  >();
+
+jest.unstable_mockModule('../src/utils/engine', () => ({
+  getEngine: () => ({ config: {}, client: null, generateCommitMessage }),
+  getTokenizer: () => ({
+    countTokens: (content: string) => content.length,
+    countModelTokens: async (content: string) => content.length
+  })
+}));
+
+const { generateCommitMessageCandidatesByDiff } = await import(
+  '../../src/generateCommitMessageFromGitDiff'
+);
+
+describe('generateCommitMessageCandidatesByDiff', () => {
+  const diff = 'diff --git a/src/index.ts b/src/index.ts\n+export {};';
+
+  beforeEach(() => {
+    let request = 0;
+    generateCommitMessage.mockReset();
+    generateCommitMessage.mockImplementation(async (_messages, options) =>
+      options?.sampling ? `feat: candidate ${++request}` : 'feat: same'
+    );
+  });
+
+  it('should sample repeated requests of engines without candidates', async () => {
+    const candidates = await generateCommitMessageCandidatesByDiff(diff, 3);
+
+    expect(new Set(candidates).size).toBeGreaterThan(1);
+    expect(candidates).toEqual([
+      'feat: candidate 1',
+      'feat: candidate 2',
+      'feat: candidate 3'
+    ]);
+    expect(generateCommitMessage).toHaveBeenCalledTimes(3);
+    expect(generateCommitMessage.mock.calls[0][1]).toMatchObject({
+      sampling: CANDIDATES_SAMPLING,
+      noCache: true
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  condenseDiff,
+  CONDENSE_STRATEGIES,
+  parseCondenseStrategies
+} from '../../src/utils/condenseDiff';
+
+const lines = (...content: string[]) => content.join('\n');
+
+describe('condenseDiff', () => {
+  const modified = lines(
+    'diff --git a/src/math.ts b/src/math.ts',
+    'index 3b18e51..a9c2f4d 100644',
+    '--- a/src/math.ts',
+    '+++ b/src/math.ts',
+    '@@ -1,11 +1,11 @@ import',
+    ' const a = 1;',
+    ' const b = 2;',
+    '-const c = 3;',
+    '+const c = 4;',
+    ' const d = 5;',
+    ' const e = 6;',
+    ' const f = 7;',
+    ' const g = 8;',
+    '-const h = 9;',
+    '+const h = 10;',
+    ' const i = 11;',
+    ' const j = 12;',
+    ''
+  );
+
+  it('should keep one line of context and split the hunk', () => {
+    expect(condenseDiff(modified, [CONDENSE_STRATEGIES.context])).toEqual(
+      lines(
+        'diff --git a/src/math.ts b/src/math.ts',
+        'index 3b18e51..a9c2f4d 100644',
+        '--- a/src/math.ts',
+        '+++ b/src/math.ts',
+        '@@ -2,3 +2,3 @@ import',
+        ' const b = 2;',
+        '-const c = 3;',
+        '+const c = 4;',
+        ' const d = 5;',
+        '@@ -7,3 +7,3 @@ import',
+        ' const g = 8;',
+        '-const h = 9;',
+        '+const h = 10;',
+        ' const i = 11;',
+        ''
+      )
+    );
+  });
+
+  it('should collapse hunks that only change whitespace', () => {
+    const reindented = lines(
+      'diff --git a/src/app.ts b/src/app.ts',
+      'index 3b18e51..a9c2f4d 100644',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -1,3 +1,3 @@',
+      ' if (ready) {',
+      '-start();',
+      '+  start();',
+      ' }'
+    );
+
+    expect(condenseDiff(reindented)).toEqual(
+      lines(
+        'diff --git a/src/app.ts b/src/app.ts',
+        'index 3b18e51..a9c2f4d 100644',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,3 +1,3 @@ whitespace-only changes to 2 lines'
+      )
+    );
+  });
+
+  it('should summarize renames and deleted files in one line', () => {
+    const diff = lines(
+      'diff --git a/src/clock.ts b/src/watch.ts',
+      'similarity index 100%',
+      'rename from src/clock.ts',
+      'rename to src/watch.ts',
+      'diff --git a/src/legacy.ts b/src/legacy.ts',
+      'deleted file mode 100644',
+      'index 3b18e51..0000000',
+      '--- a/src/legacy.ts',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+      '-export const legacy = true;',
+      '-export default legacy;',
+      ''
+    );
+
+    expect(condenseDiff(diff)).toEqual(
+      lines(
+        'diff --git a/src/clock.ts b/src/watch.ts',
+        'renamed src/clock.ts to src/watch.ts',
+        'diff --git a/src/legacy.ts b/src/legacy.ts',
+        'deleted src/legacy.ts (2 lines)',
+        ''
+      )
+    );
+  });
+
+  it('should replace big data file changes with statistics', () => {
+    const rows = Array.from({ length: 120 }, (_, i) => `+  "key${i}": ${i},`);
+    const dataDiff = (file: string) =>
+      lines(
+        `diff --git a/${file} b/${file}`,
+        'index 3b18e51..a9c2f4d 100644',
+        `--- a/${file}`,
+        `+++ b/${file}`,
+        '@@ -1 +1,121 @@',
+        ' {',
+        ...rows
+      );
+
+    expect(condenseDiff(dataDiff('locales/en.json'))).toEqual(
+      lines(
+        'diff --git a/locales/en.json b/locales/en.json',
+        'changed data in locales/en.json: +120 -0 lines in 1 hunks, not shown'
+      )
+    );
+    // preprocessDiff describes the schema of fixtures
+    expect(
+      condenseDiff(dataDiff('fixtures/users.json'), [CONDENSE_STRATEGIES.data])
+    ).toEqual(dataDiff('fixtures/users.json'));
+  });
+
+  it('should keep text after the last hunk and condense only once', () => {
+    const diff = `${modified.trimEnd()}\n\n1 generated file changed: yarn.lock`;
+    const condensed = condenseDiff(diff);
+
+    expect(condensed).toMatch(/ const i = 11;\n\n1 generated file changed/);
+    expect(condenseDiff(condensed)).toEqual(condensed);
+  });
+
+  it('should leave the diff as is without strategies', () => {
+    expect(condenseDiff(modified, [])).toEqual(modified);
+  });
+});
+
+describe('parseCondenseStrategies', () => {
+  it('should default to all strategies and accept none', () => {
+    expect(parseCondenseStrategies(undefined)).toEqual(
+      Object.values(CONDENSE_STRATEGIES)
+    );
+    expect(parseCondenseStrategies('renames, deletions')).toEqual([
+      CONDENSE_STRATEGIES.renames,
+      CONDENSE_STRATEGIES.deletions
+    ]);
+    expect(parseCondenseStrategies('none')).toEqual([]);
+  });
+});
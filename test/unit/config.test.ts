@@ -5,6 +5,7 @@ import {
   getConfig,
   setConfig
 } from '../../src/commands/config';
+import { getEngineDefinition } from '../../src/engine/registry';
 import { prepareFile } from './utils';
 import { dirname } from 'path';
 
@@ -248,6 +249,107 @@ describe('config', () => {
 
     });
 
+    it('should accept any model for the openai-compatible provider', async () => {
+      envConfigFile = await generateConfig('.env', {});
+      globalConfigFile = await generateConfig('.opencommit', {});
+      await setConfig(
+        [
+          [CONFIG_KEYS.OCO_AI_PROVIDER, 'openai-compatible'],
+          [CONFIG_KEYS.OCO_MODEL, 'llama-3-8b-instruct'],
+          [CONFIG_KEYS.OCO_API_URL, 'http://localhost:8000/v1']
+        ],
+        globalConfigFile.filePath
+      );
+
+      const config = getConfig({
+        globalPath: globalConfigFile.filePath,
+        envPath: envConfigFile.filePath
+      });
+      expect(config.OCO_AI_PROVIDER).toEqual('openai-compatible');
+      expect(config.OCO_MODEL).toEqual('llama-3-8b-instruct');
+      expect(config.OCO_API_URL).toEqual('http://localhost:8000/v1');
+    });
+
+    it('should validate ollama models against the models discovered locally', async () => {
+      envConfigFile = await generateConfig('.env', {});
+      globalConfigFile = await generateConfig('.opencommit', {});
+      const ollama = getEngineDefinition('ollama')!;
+      ollama.models = ['llama3:latest', 'llama3'];
+
+      await setConfig(
+        [
+          [CONFIG_KEYS.OCO_AI_PROVIDER, 'ollama'],
+          [CONFIG_KEYS.OCO_MODEL, 'llama3']
+        ],
+        globalConfigFile.filePath
+      );
+
+      const config = getConfig({
+        globalPath: globalConfigFile.filePath,
+        envPath: envConfigFile.filePath
+      });
+      expect(config.OCO_AI_PROVIDER).toEqual('ollama');
+      expect(config.OCO_MODEL).toEqual('llama3');
+
+      const mockExit = jest.spyOn(process, 'exit').mockImplementation((() => {
+        throw new Error('exit');
+      }) as any);
+
+      expect(() =>
+        setConfig(
+          [[CONFIG_KEYS.OCO_MODEL, 'mistral']],
+          globalConfigFile.filePath
+        )
+      ).toThrow('exit');
+      expect(mockExit).toHaveBeenCalledWith(1);
+
+      mockExit.mockRestore();
+      ollama.models = [];
+    });
+
+    it('should set generation parameters and safety thresholds', async () => {
+      envConfigFile = await generateConfig('.env', {});
+      globalConfigFile = await generateConfig('.opencommit', {});
+
+      await setConfig(
+        [
+          [CONFIG_KEYS.OCO_TEMPERATURE, '0.4'],
+          [CONFIG_KEYS.OCO_TOP_K, '40'],
+          [CONFIG_KEYS.OCO_STOP_SEQUENCES, '["\\n\\n", "END"]'],
+          [CONFIG_KEYS.OCO_SAFETY_DANGEROUS_CONTENT, 'BLOCK_ONLY_HIGH']
+        ],
+        globalConfigFile.filePath
+      );
+
+      const config = getConfig({
+        globalPath: globalConfigFile.filePath,
+        envPath: envConfigFile.filePath
+      });
+      expect(config.OCO_TEMPERATURE).toEqual(0.4);
+      expect(config.OCO_TOP_K).toEqual(40);
+      expect(config.OCO_STOP_SEQUENCES).toEqual(['\n\n', 'END']);
+      expect(config.OCO_SAFETY_DANGEROUS_CONTENT).toEqual('BLOCK_ONLY_HIGH');
+
+      const mockExit = jest.spyOn(process, 'exit').mockImplementation((() => {
+        throw new Error('exit');
+      }) as any);
+
+      expect(() =>
+        setConfig(
+          [[CONFIG_KEYS.OCO_TEMPERATURE, '3']],
+          globalConfigFile.filePath
+        )
+      ).toThrow('exit');
+      expect(() =>
+        setConfig(
+          [[CONFIG_KEYS.OCO_SAFETY_HARASSMENT, 'BLOCK_SOME']],
+          globalConfigFile.filePath
+        )
+      ).toThrow('exit');
+
+      mockExit.mockRestore();
+    });
+
     it('should update existing config values', async () => {
       envConfigFile = await generateConfig('.env', {});
       globalConfigFile = await generateConfig('.opencommit', {
@@ -0,0 +1,293 @@
+import { execa } from 'execa';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  enrichDiff,
+  enrichFileDiff,
+  findSymbols,
+  getEnclosingSymbol
+} from '../../src/utils/diffSymbols';
+import { condenseDiff } from '../../src/utils/condenseDiff';
+import { mapFileDiff } from '../../src/utils/parseDiff';
+
+const lines = (...content: string[]) => content.join('\n');
+
+const names = (content: string, file: string) =>
+  findSymbols(content, file).map(
+    ({ kind, name, start, end }) => `${kind} ${name} ${start}-${end}`
+  );
+
+describe('findSymbols', () => {
+  it('should find classes, methods and functions in TypeScript', () => {
+    const source = lines(
+      "import { greet } from './greet';",
+      '',
+      'export class Greeter {',
+      '  constructor(private name: string) {}',
+      '',
+      '  async greet({ loud }: Options): Promise<string> {',
+      '    if (loud) {',
+      "      return '!';",
+      '    }',
+      '    return `Hello ${this.name} {`;',
+      '  }',
+      '}',
+      '',
+      'export const shout = (text: string) => {',
+      '  return text.toUpperCase();',
+      '};',
+      '',
+      'const double = (n: number) => n * 2;'
+    );
+
+    expect(names(source, 'src/greeter.ts')).toEqual([
+      'class Greeter 3-12',
+      'method Greeter.constructor 4-4',
+      'method Greeter.greet 6-11',
+      'function shout 14-16',
+      'function double 18-18'
+    ]);
+  });
+
+  it('should find classes, methods and nested functions in Python', () => {
+    const source = lines(
+      'class Greeter:',
+      '    def __init__(self, name):',
+      '        self.name = name',
+      '',
+      '    def greet(',
+      '        self,',
+      '    ):',
+      '        return f"Hello {self.name}"',
+      '',
+      'def main():',
+      '    def helper():',
+      '        pass',
+      '    # done',
+      '',
+      'print(main())'
+    );
+
+    expect(names(source, 'greeter.py')).toEqual([
+      'class Greeter 1-8',
+      'method Greeter.__init__ 2-3',
+      'method Greeter.greet 5-8',
+      'function main 10-12',
+      'function main.helper 11-12'
+    ]);
+  });
+
+  it('should qualify Go methods by their receiver', () => {
+    const source = lines(
+      'type Server struct {',
+      '\taddr string',
+      '}',
+      '',
+      'func (s *Server) Start() error {',
+      '\tgo func() {',
+      '\t}()',
+      '\treturn nil',
+      '}',
+      '',
+      'func main() {',
+      '}'
+    );
+
+    expect(names(source, 'main.go')).toEqual([
+      'struct Server 1-3',
+      'method Server.Start 5-9',
+      'function main 11-12'
+    ]);
+  });
+
+  it('should skip languages it does not know', () => {
+    expect(findSymbols('fn main() {}', 'main.rs')).toEqual([]);
+  });
+});
+
+describe('getEnclosingSymbol', () => {
+  it('should return the innermost symbol', () => {
+    const symbols = findSymbols(
+      lines('class A {', '  run() {', '    go();', '  }', '}'),
+      'a.ts'
+    );
+
+    expect(getEnclosingSymbol(symbols, 3)?.name).toEqual('A.run');
+    expect(getEnclosingSymbol(symbols, 5)?.name).toEqual('A');
+    expect(getEnclosingSymbol(symbols, 6)).toBeUndefined();
+  });
+});
+
+describe('enrichFileDiff', () => {
+  const oldContent = lines(
+    'export class Greeter {',
+    '  greet() {',
+    "    return 'Hello';",
+    '  }',
+    '',
+    '  wave() {',
+    '    return 5;',
+    '  }',
+    '}',
+    ''
+  );
+  const newContent = lines(
+    'export class Greeter {',
+    '  greet() {',
+    "    return 'Hi';",
+    '  }',
+    '}',
+    '',
+    'export function farewell() {',
+    "  return 'Bye';",
+    '}',
+    ''
+  );
+  const diff = lines(
+    'diff --git a/src/greeter.ts b/src/greeter.ts',
+    'index 3b18e51..a9c2f4d 100644',
+    '--- a/src/greeter.ts',
+    '+++ b/src/greeter.ts',
+    '@@ -1,9 +1,9 @@',
+    ' export class Greeter {',
+    '   greet() {',
+    "-    return 'Hello';",
+    "+    return 'Hi';",
+    '   }',
+    '-',
+    '-  wave() {',
+    '-    return 5;',
+    '-  }',
+    ' }',
+    '+',
+    '+export function farewell() {',
+    "+  return 'Bye';",
+    '+}',
+    ''
+  );
+
+  it('should name the symbols of every hunk and list added and removed ones', () => {
+    expect(
+      mapFileDiff(diff, (file) => enrichFileDiff(file, oldContent, newContent))
+    ).toEqual(
+      lines(
+        'diff --git a/src/greeter.ts b/src/greeter.ts',
+        'index 3b18e51..a9c2f4d 100644',
+        '--- a/src/greeter.ts',
+        '+++ b/src/greeter.ts',
+        'added symbols: function farewell',
+        'removed symbols: method Greeter.wave',
+        '@@ -1,9 +1,9 @@ in method Greeter.greet, class Greeter, method Greeter.wave, function farewell',
+        ...diff.split('\n').slice(5)
+      )
+    );
+  });
+
+  it("should keep git's section when no symbol encloses the changes", () => {
+    const importDiff = lines(
+      'diff --git a/src/greeter.ts b/src/greeter.ts',
+      '@@ -1 +1 @@ import',
+      "-import { a } from './a';",
+      "+import { b } from './b';"
+    );
+
+    expect(
+      mapFileDiff(importDiff, (file) =>
+        enrichFileDiff(
+          file,
+          "import { a } from './a';",
+          "import { b } from './b';"
+        )
+      )
+    ).toEqual(importDiff);
+  });
+
+  it('should name the symbols of each hunk split by condenseDiff', () => {
+    const source = (add: string, sub: string) =>
+      lines(
+        'export function add(a, b) {',
+        `  return ${add};`,
+        '}',
+        '',
+        'export function sub(a, b) {',
+        `  return ${sub};`,
+        '}',
+        ''
+      );
+    const condensed = condenseDiff(
+      lines(
+        'diff --git a/src/math.ts b/src/math.ts',
+        'index 3b18e51..a9c2f4d 100644',
+        '--- a/src/math.ts',
+        '+++ b/src/math.ts',
+        '@@ -1,7 +1,7 @@',
+        ' export function add(a, b) {',
+        '-  return a - b;',
+        '+  return a + b;',
+        ' }',
+        ' ',
+        ' export function sub(a, b) {',
+        '-  return a + b;',
+        '+  return a - b;',
+        ' }',
+        ''
+      )
+    );
+
+    expect(
+      mapFileDiff(condensed, (file) =>
+        enrichFileDiff(file, source('a - b', 'a + b'), source('a + b', 'a - b'))
+      )
+    ).toMatch(
+      /@@ -1,3 \+1,3 @@ in function add\n[^@]*@@ -5,3 \+5,3 @@ in function sub\n/
+    );
+  });
+});
+
+describe('enrichDiff', () => {
+  let gitDir: string;
+
+  beforeAll(async () => {
+    gitDir = mkdtempSync(path.join(tmpdir(), 'opencommit-test-'));
+    await execa('git', ['init', '-q'], { cwd: gitDir });
+    await execa(
+      'git',
+      [
+        '-c',
+        'user.name=test',
+        '-c',
+        'user.email=test@example.com',
+        'commit',
+        '-q',
+        '--allow-empty',
+        '-m',
+        'init'
+      ],
+      { cwd: gitDir }
+    );
+
+    writeFileSync(
+      path.join(gitDir, 'app.py'),
+      lines('def start():', '    return True', '')
+    );
+    await execa('git', ['add', '.'], { cwd: gitDir });
+  });
+
+  afterAll(() => {
+    rmSync(gitDir, { recursive: true, force: true });
+  });
+
+  it('should read added files from the index', async () => {
+    const { stdout: diff } = await execa('git', ['diff', '--staged'], {
+      cwd: gitDir
+    });
+
+    const enriched = await enrichDiff(diff, gitDir);
+
+    expect(enriched).toMatch(
+      /\n\+\+\+ b\/app.py\nadded symbols: function start\n@@ /
+    );
+    expect(enriched).toContain('@@ -0,0 +1,2 @@ in function start');
+  });
+});
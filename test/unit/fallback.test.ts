@@ -0,0 +1,168 @@
+import {
+  BlockedEngineError,
+  FatalEngineError,
+  RetryableEngineError,
+  toEngineError
+} from '../../src/engine/errors';
+import {
+  EngineFallback,
+  FallbackEngine,
+  parseModelFallbacks
+} from '../../src/engine/fallback';
+import { CANDIDATES_SAMPLING } from '../../src/engine/Engine';
+import type { AiEngine, Message } from '../../src/engine/Engine';
+
+const createEngine = (
+  generateCommitMessage: AiEngine['generateCommitMessage'],
+  generateCommitMessageStream?: AiEngine['generateCommitMessageStream']
+) =>
+  ({
+    config: {},
+    client: null,
+    generateCommitMessage: jest.fn(generateCommitMessage),
+    generateCommitMessageStream
+  } as unknown as AiEngine);
+
+const overloaded = () =>
+  new RetryableEngineError('The model is overloaded', { status: 503 });
+
+describe('parseModelFallbacks', () => {
+  it('should split models and provider prefixes', () => {
+    expect(
+      parseModelFallbacks(
+        'gemini-2.5-pro, gemini-2.5-flash,ollama:llama3,,llama3:8b',
+        'gemini'
+      )
+    ).toEqual([
+      { provider: 'gemini', model: 'gemini-2.5-pro' },
+      { provider: 'gemini', model: 'gemini-2.5-flash' },
+      { provider: 'ollama', model: 'llama3' },
+      // not a provider, an Ollama tag of the default provider
+      { provider: 'gemini', model: 'llama3:8b' }
+    ]);
+  });
+
+  it('should return no fallbacks when unset', () => {
+    expect(parseModelFallbacks(undefined, 'gemini')).toEqual([]);
+  });
+});
+
+describe('FallbackEngine', () => {
+  const messages: Array<Message> = [{ role: 'user', content: 'diff' }];
+  let fallbacks: EngineFallback[];
+
+  beforeEach(() => {
+    fallbacks = [];
+  });
+
+  const createFallbackEngine = (...engines: AiEngine[]) =>
+    new FallbackEngine(
+      engines.map((engine, i) => ({ label: `model-${i}`, engine })),
+      (fallback) => fallbacks.push(fallback)
+    );
+
+  it('should fall back on overloaded models and report it', async () => {
+    const engine = createFallbackEngine(
+      createEngine(async () => {
+        throw overloaded();
+      }),
+      createEngine(async () => 'feat: from the fallback')
+    );
+
+    await expect(engine.generateCommitMessage(messages)).resolves.toEqual(
+      'feat: from the fallback'
+    );
+    expect(fallbacks).toMatchObject([{ from: 'model-0', to: 'model-1' }]);
+  });
+
+  it('should fall back when the request was blocked', async () => {
+    const blocked = Object.assign(
+      new Error('Candidate was blocked due to SAFETY'),
+      { response: { candidates: [{ finishReason: 'SAFETY' }] } }
+    );
+    expect(toEngineError(blocked)).toBeInstanceOf(BlockedEngineError);
+
+    const engine = createFallbackEngine(
+      createEngine(async () => {
+        throw blocked;
+      }),
+      createEngine(async () => 'fix: unblocked')
+    );
+
+    await expect(engine.generateCommitMessage(messages)).resolves.toEqual(
+      'fix: unblocked'
+    );
+  });
+
+  it('should not fall back on fatal errors', async () => {
+    const second = createEngine(async () => 'never');
+    const engine = createFallbackEngine(
+      createEngine(async () => {
+        throw new FatalEngineError('API key not valid', { status: 400 });
+      }),
+      second
+    );
+
+    await expect(engine.generateCommitMessage(messages)).rejects.toThrow(
+      'API key not valid'
+    );
+    expect(second.generateCommitMessage).not.toHaveBeenCalled();
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    const engine = createFallbackEngine(
+      createEngine(async () => {
+        throw overloaded();
+      }),
+      createEngine(async () => {
+        throw overloaded();
+      })
+    );
+
+    await expect(engine.generateCommitMessage(messages)).rejects.toBeInstanceOf(
+      RetryableEngineError
+    );
+    expect(fallbacks).toHaveLength(1);
+  });
+
+  it('should not fall back once the stream has started', async () => {
+    const engine = createFallbackEngine(
+      createEngine(
+        async () => 'unused',
+        async (_messages, onChunk) => {
+          onChunk('feat: ');
+          throw overloaded();
+        }
+      ),
+      createEngine(async () => 'feat: from the fallback')
+    );
+
+    await expect(
+      engine.generateCommitMessageStream(messages, () => {})
+    ).rejects.toBeInstanceOf(RetryableEngineError);
+    expect(fallbacks).toEqual([]);
+  });
+
+  it('should sample one request per candidate without native candidates', async () => {
+    let request = 0;
+    const fallback = createEngine(async () => `feat: candidate ${++request}`);
+    const engine = createFallbackEngine(
+      createEngine(async () => {
+        throw overloaded();
+      }),
+      fallback
+    );
+
+    await expect(
+      engine.generateCommitMessageCandidates(messages, 3)
+    ).resolves.toEqual([
+      'feat: candidate 1',
+      'feat: candidate 2',
+      'feat: candidate 3'
+    ]);
+    expect(fallback.generateCommitMessage).toHaveBeenCalledWith(
+      messages,
+      expect.objectContaining({ sampling: CANDIDATES_SAMPLING })
+    );
+  });
+});
@@ -3,8 +3,12 @@ import type { ConfigType } from '../../src/commands/config';
 import type { Message } from '../../src/engine/Engine';
 
 const mockGenerateContent = jest.fn();
+const mockGenerateContentStream = jest.fn();
+const mockCountTokens = jest.fn<() => Promise<{ totalTokens: number }>>();
 const mockGenerativeModel = {
-  generateContent: mockGenerateContent
+  generateContent: mockGenerateContent,
+  generateContentStream: mockGenerateContentStream,
+  countTokens: mockCountTokens
 };
 const mockGoogleGenAIInstance = {
   getGenerativeModel: jest.fn(() => mockGenerativeModel)
@@ -36,7 +40,9 @@ jest.unstable_mockModule('@clack/prompts', () => ({
 }));
 
 // Dynamic imports
-const { GeminiEngine } = await import('../../src/engine/gemini');
+const { GeminiEngine, GeminiTokenizer } = await import(
+  '../../src/engine/gemini'
+);
 const { getConfig, OCO_AI_PROVIDER_ENUM } = await import(
   '../../src/commands/config'
 );
@@ -64,6 +70,7 @@ describe('Gemini', () => {
     process.env = { ...oldEnv };
 
     mockGenerateContent.mockReset();
+    mockGenerateContentStream.mockReset();
     MockGoogleGenerativeAI.mockClear();
 
     (getConfig as jest.Mock).mockReturnValue({
@@ -124,5 +131,195 @@ describe('Gemini', () => {
     expect(result).toEqual('generated content');
     expect(mockGenerateContent).toHaveBeenCalled();
   });
-});
 
+  it('should stream the commit message chunk by chunk', async () => {
+    const chunks = ['feat: add ', 'streaming ', 'preview'];
+
+    mockGenerateContentStream.mockResolvedValue({
+      stream: (async function* () {
+        for (const chunk of chunks) yield { text: () => chunk };
+      })(),
+      response: Promise.resolve({ text: () => chunks.join('') })
+    });
+
+    mockGemini();
+
+    const received: string[] = [];
+    const result = await gemini.generateCommitMessageStream(
+      [{ role: 'user', content: 'diff' }],
+      (chunk: string) => received.push(chunk)
+    );
+
+    expect(received).toEqual(chunks);
+    expect(result).toEqual('feat: add streaming preview');
+    expect(mockGenerateContent).not.toHaveBeenCalled();
+  });
+
+  it('should request several candidates with sampling enabled', async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: Promise.resolve({
+        candidates: [
+          { content: { parts: [{ text: 'feat: add login' }] } },
+          { content: { parts: [{ text: 'feat(auth): ' }, { text: 'login' }] } }
+        ]
+      })
+    });
+
+    mockGemini();
+
+    const result = await gemini.generateCommitMessageCandidates(
+      [{ role: 'user', content: 'diff' }],
+      2
+    );
+
+    expect(result).toEqual(['feat: add login', 'feat(auth): login']);
+    expect(mockGenerateContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        generationConfig: expect.objectContaining({
+          candidateCount: 2,
+          temperature: 0.9
+        })
+      }),
+      { signal: undefined }
+    );
+  });
+
+  it('should keep the configured sampling for candidates', async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: Promise.resolve({ candidates: [] })
+    });
+
+    gemini = new GeminiEngine({
+      apiKey: 'mock-api-key',
+      model: 'gemini-2.5-flash',
+      maxTokensInput: 1000,
+      maxTokensOutput: 100,
+      topP: 0.5
+    });
+
+    await gemini.generateCommitMessageCandidates(
+      [{ role: 'user', content: 'diff' }],
+      2
+    );
+
+    const [request] = mockGenerateContent.mock.calls[0] as any[];
+    expect(request.generationConfig).toMatchObject({
+      candidateCount: 2,
+      temperature: 0.9,
+      topP: 0.5
+    });
+  });
+
+  it('should send the configured sampling and safety thresholds', async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: Promise.resolve({ text: () => 'fix: exploit fixture' })
+    });
+
+    gemini = new GeminiEngine({
+      apiKey: 'mock-api-key',
+      model: 'gemini-2.5-flash',
+      maxTokensInput: 1000,
+      maxTokensOutput: 100,
+      temperature: 0.4,
+      topK: 40,
+      stopSequences: ['END'],
+      safetyThresholds: { DANGEROUS_CONTENT: 'BLOCK_NONE' }
+    });
+
+    await gemini.generateCommitMessage([{ role: 'user', content: 'diff' }]);
+
+    const [request] = mockGenerateContent.mock.calls[0] as any[];
+    expect(request.generationConfig).toMatchObject({
+      temperature: 0.4,
+      topP: 0.1,
+      topK: 40,
+      stopSequences: ['END']
+    });
+    expect(request.safetySettings).toContainEqual({
+      category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+      threshold: 'BLOCK_NONE'
+    });
+    expect(request.safetySettings).toContainEqual({
+      category: 'HARM_CATEGORY_HARASSMENT',
+      threshold: 'BLOCK_LOW_AND_ABOVE'
+    });
+  });
+
+  it('should constrain the reply to the response schema', async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: Promise.resolve({ text: () => '{"type":"feat"}' })
+    });
+
+    mockGemini();
+    const responseSchema = { type: 'object', properties: {} };
+
+    await gemini.generateCommitMessage([{ role: 'user', content: 'diff' }], {
+      responseSchema
+    });
+
+    const [request] = mockGenerateContent.mock.calls[0] as any[];
+    expect(request.generationConfig).toMatchObject({
+      responseMimeType: 'application/json',
+      responseSchema
+    });
+  });
+
+  it('should report the billed tokens including thinking', async () => {
+    mockGenerateContent.mockResolvedValue({
+      response: Promise.resolve({
+        text: () => 'feat: add usage',
+        usageMetadata: {
+          promptTokenCount: 1200,
+          candidatesTokenCount: 20,
+          thoughtsTokenCount: 300,
+          totalTokenCount: 1520
+        }
+      })
+    });
+
+    mockGemini();
+    const onUsage = jest.fn();
+
+    await gemini.generateCommitMessage([{ role: 'user', content: 'diff' }], {
+      onUsage
+    });
+
+    expect(onUsage).toHaveBeenCalledWith({
+      model: gemini.config.model,
+      promptTokens: 1200,
+      outputTokens: 320
+    });
+  });
+
+  it('should count tokens with the countTokens API once per content', async () => {
+    mockCountTokens.mockReset();
+    mockCountTokens.mockResolvedValue({ totalTokens: 1234 });
+
+    const tokenizer = new GeminiTokenizer({
+      apiKey: 'mock-api-key',
+      model: 'gemini-2.5-flash',
+      maxTokensInput: 4096,
+      maxTokensOutput: 500
+    });
+
+    await expect(tokenizer.countModelTokens('diff')).resolves.toEqual(1234);
+    await expect(tokenizer.countModelTokens('diff')).resolves.toEqual(1234);
+    expect(mockCountTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the estimate when countTokens fails', async () => {
+    mockCountTokens.mockReset();
+    mockCountTokens.mockRejectedValue(new Error('fetch failed'));
+
+    const tokenizer = new GeminiTokenizer({
+      apiKey: 'mock-api-key',
+      model: 'gemini-2.5-flash',
+      maxTokensInput: 4096,
+      maxTokensOutput: 500
+    });
+
+    await expect(
+      tokenizer.countModelTokens('+const answer = 42;')
+    ).resolves.toEqual(tokenizer.countTokens('+const answer = 42;'));
+  });
+});
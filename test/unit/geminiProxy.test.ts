@@ -0,0 +1,137 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo, connect, Socket } from 'net';
+import {
+  Agent,
+  fetch as undiciFetch,
+  getGlobalDispatcher,
+  setGlobalDispatcher
+} from 'undici';
+import { GeminiEngine } from '../../src/engine/gemini';
+import { getProxyForUrl } from '../../src/utils/proxy';
+import type { Message } from '../../src/engine/Engine';
+
+const listen = async (server: Server) => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return (server.address() as AddressInfo).port;
+};
+
+const close = (server: Server) =>
+  new Promise((resolve) => server.close(resolve));
+
+describe('GeminiEngine request routing', () => {
+  let gemini: Server;
+  let geminiURL: string;
+  let requests: { url?: string; headers: IncomingHttpHeaders }[];
+
+  const oldEnv = process.env;
+
+  beforeAll(async () => {
+    gemini = createServer((req, res) => {
+      requests.push({ url: req.url, headers: req.headers });
+      req.resume();
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(
+          JSON.stringify({
+            candidates: [
+              {
+                content: { role: 'model', parts: [{ text: 'feat: proxied' }] },
+                finishReason: 'STOP'
+              }
+            ]
+          })
+        );
+      });
+    });
+
+    geminiURL = `http://127.0.0.1:${await listen(gemini)}/gemini-gateway`;
+  });
+
+  afterAll(async () => {
+    gemini.closeAllConnections();
+    await close(gemini);
+  });
+
+  beforeEach(() => {
+    requests = [];
+    process.env = { ...oldEnv };
+    delete process.env.NO_PROXY;
+    delete process.env.no_proxy;
+  });
+
+  afterEach(() => {
+    process.env = oldEnv;
+  });
+
+  const messages: Array<Message> = [
+    { role: 'system', content: 'system message' },
+    { role: 'user', content: 'diff --git a/file b/file' }
+  ];
+
+  const createEngine = () =>
+    new GeminiEngine({
+      apiKey: 'mock-api-key',
+      model: 'gemini-2.5-flash',
+      maxTokensInput: 4096,
+      maxTokensOutput: 500,
+      baseURL: geminiURL,
+      customHeaders: { 'X-Corp-Auth': 'token123' }
+    });
+
+  it('should send requests to OCO_API_URL with the custom headers', async () => {
+    const result = await createEngine().generateCommitMessage(messages);
+
+    expect(result).toEqual('feat: proxied');
+    expect(requests[0].url).toEqual(
+      '/gemini-gateway/v1beta/models/gemini-2.5-flash:generateContent'
+    );
+    expect(requests[0].headers['x-corp-auth']).toEqual('token123');
+    expect(requests[0].headers['x-goog-api-key']).toEqual('mock-api-key');
+  });
+
+  it('should tunnel requests through the proxy from the env', async () => {
+    const tunnels: string[] = [];
+    const proxy = createServer();
+    proxy.on('connect', (req, clientSocket: Socket, head) => {
+      tunnels.push(req.url!);
+      const [host, port] = req.url!.split(':');
+      const upstream = connect(Number(port), host, () => {
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+      });
+    });
+
+    const proxyURL = `http://127.0.0.1:${await listen(proxy)}`;
+    process.env.HTTP_PROXY = proxyURL;
+
+    // jest runs tests in their own realm, while Node's built-in fetch reads
+    // the global dispatcher of the outer one
+    const nativeFetch = globalThis.fetch;
+    globalThis.fetch = undiciFetch as unknown as typeof fetch;
+
+    const result = await createEngine()
+      .generateCommitMessage(messages)
+      .finally(() => (globalThis.fetch = nativeFetch));
+
+    expect(result).toEqual('feat: proxied');
+    expect(tunnels).toEqual([new URL(geminiURL).host]);
+
+    // drops the tunnels kept alive by the proxy agent
+    await getGlobalDispatcher().destroy();
+    setGlobalDispatcher(new Agent());
+    await close(proxy);
+  });
+
+  it('should not proxy hosts listed in NO_PROXY', () => {
+    process.env.HTTPS_PROXY = 'http://proxy.corp:3128';
+    process.env.NO_PROXY = 'localhost,.internal.corp';
+
+    expect(getProxyForUrl('https://generativelanguage.googleapis.com')).toEqual(
+      'http://proxy.corp:3128'
+    );
+    expect(getProxyForUrl('https://gemini.internal.corp/v1')).toBeUndefined();
+    expect(getProxyForUrl('https://localhost:8443')).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { execa } from 'execa';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  classifyFiles,
+  DEFAULT_GENERATED_GLOBS,
+  formatExcludedFilesNote,
+  getExcludedFiles,
+  parseBinaryFiles,
+  parseGitAttributes
+} from '../../src/utils/generatedFiles';
+
+describe('parseBinaryFiles', () => {
+  it('should return the files without line counts', () => {
+    expect(
+      parseBinaryFiles(
+        '3\t1\tsrc/index.ts\0-\t-\tlogo.png\0-\t-\t\0old.ico\0new.ico\0'
+      )
+    ).toEqual(['logo.png', 'new.ico']);
+  });
+});
+
+describe('parseGitAttributes', () => {
+  it('should group the attributes by path', () => {
+    expect(
+      parseGitAttributes(
+        'gen/api.ts\0linguist-generated\0set\0gen/api.ts\0diff\0unspecified\0'
+      )
+    ).toEqual(
+      new Map([
+        ['gen/api.ts', { 'linguist-generated': 'set', diff: 'unspecified' }]
+      ])
+    );
+  });
+});
+
+describe('classifyFiles', () => {
+  const noAttributes = new Map<string, Record<string, string>>();
+
+  it('should match the default globs by path segment, not by substring', () => {
+    expect(
+      classifyFiles(
+        [
+          'src/clock.ts',
+          'yarn.lock',
+          'package-lock.json',
+          'packages/app/dist/index.js',
+          'api/user.pb.go',
+          'icons/check.svg'
+        ],
+        [],
+        noAttributes,
+        DEFAULT_GENERATED_GLOBS
+      )
+    ).toEqual({
+      generated: [
+        'yarn.lock',
+        'package-lock.json',
+        'packages/app/dist/index.js',
+        'api/user.pb.go',
+        'icons/check.svg'
+      ],
+      binary: []
+    });
+  });
+
+  it('should follow .gitattributes over the globs', () => {
+    const attributes = new Map([
+      ['src/schema.ts', { 'linguist-generated': 'true' }],
+      ['third_party/lib.c', { diff: 'unset' }],
+      ['dist/cli.js', { 'linguist-generated': 'false' }]
+    ]);
+
+    expect(
+      classifyFiles(
+        ['src/schema.ts', 'third_party/lib.c', 'dist/cli.js', 'logo.png'],
+        ['logo.png'],
+        attributes,
+        DEFAULT_GENERATED_GLOBS
+      )
+    ).toEqual({
+      generated: ['src/schema.ts', 'third_party/lib.c'],
+      binary: ['logo.png']
+    });
+  });
+});
+
+describe('getExcludedFiles', () => {
+  let gitDir: string;
+
+  beforeAll(async () => {
+    gitDir = mkdtempSync(path.join(tmpdir(), 'opencommit-test-'));
+    await execa('git', ['init', '-q'], { cwd: gitDir });
+
+    mkdirSync(path.join(gitDir, 'gen'));
+    writeFileSync(
+      path.join(gitDir, '.gitattributes'),
+      'gen/** linguist-generated\n'
+    );
+    writeFileSync(path.join(gitDir, 'gen', 'api.ts'), 'export {};\n');
+    writeFileSync(path.join(gitDir, 'index.ts'), 'console.log(1);\n');
+    writeFileSync(path.join(gitDir, 'logo.png'), Buffer.from([0, 1, 2, 0]));
+    await execa('git', ['add', '.'], { cwd: gitDir });
+  });
+
+  afterAll(() => {
+    rmSync(gitDir, { recursive: true, force: true });
+  });
+
+  it('should read binary files and attributes from git', async () => {
+    const excluded = await getExcludedFiles(
+      ['.gitattributes', 'gen/api.ts', 'index.ts', 'logo.png'],
+      DEFAULT_GENERATED_GLOBS,
+      gitDir
+    );
+
+    expect(excluded).toEqual({
+      generated: ['gen/api.ts'],
+      binary: ['logo.png']
+    });
+    expect(formatExcludedFilesNote(excluded)).toEqual(
+      '1 generated file changed: gen/api.ts\n1 binary file changed: logo.png'
+    );
+  });
+});
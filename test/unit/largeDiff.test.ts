@@ -0,0 +1,107 @@
+import { jest } from '@jest/globals';
+import type { Message } from '../../src/engine/Engine';
+
+const generateCommitMessage =
+  jest.fn<(messages: Array<Message>) => Promise<string>>();
+
+// the diff is counted by its length, the prompt is left out of the budget
+jest.unstable_mockModule('../src/utils/engine', () => ({
+  getEngine: () => ({ config: {}, client: null, generateCommitMessage }),
+  getTokenizer: () => ({
+    countTokens: (content: string) => content.length,
+    countModelTokens: async (content: string) =>
+      content.startsWith('diff --git') ? content.length : 0
+  })
+}));
+
+const { getConfig } = await import('../../src/commands/config');
+const { generateCommitMessageByDiff } = await import(
+  '../../src/generateCommitMessageFromGitDiff'
+);
+const { getDiffSummaryPrompt } = await import('../../src/prompts');
+
+describe('generateCommitMessageByDiff with oversized diffs', () => {
+  const { OCO_TOKENS_MAX_INPUT, OCO_TOKENS_MAX_OUTPUT } = getConfig();
+  const budget = OCO_TOKENS_MAX_INPUT - OCO_TOKENS_MAX_OUTPUT - 100;
+
+  // each file fits into a request, no two of them together
+  const fileDiff = (file: string) =>
+    `diff --git a/${file} b/${file}\n+${'x'.repeat(budget * 0.7)}\n`;
+
+  const isSummaryRequest = (messages: Array<Message>) =>
+    messages[0].content === getDiffSummaryPrompt().content;
+
+  beforeEach(() => {
+    generateCommitMessage.mockReset();
+  });
+
+  it('should summarize every part and write one message from the notes', async () => {
+    generateCommitMessage.mockImplementation(async (messages) =>
+      isSummaryRequest(messages)
+        ? `- notes on ${messages[1].content.split(' ')[2]}`
+        : 'feat: add the a and b modules'
+    );
+
+    const result = await generateCommitMessageByDiff(
+      fileDiff('a.ts') + fileDiff('b.ts')
+    );
+
+    expect(result).toEqual('feat: add the a and b modules');
+
+    const requests = generateCommitMessage.mock.calls.map(
+      ([messages]) => messages
+    );
+    expect(requests.map(isSummaryRequest)).toEqual([true, true, false]);
+    expect(requests[0][1].content).toEqual(fileDiff('a.ts'));
+    expect(requests[1][1].content).toEqual(fileDiff('b.ts'));
+
+    const notesPrompt = requests[2][requests[2].length - 1].content;
+    expect(notesPrompt).toContain('- notes on a/a.ts');
+    expect(notesPrompt).toContain('- notes on a/b.ts');
+  });
+
+  it('should summarize notes again until they fit into one request', async () => {
+    generateCommitMessage.mockImplementation(async (messages) =>
+      isSummaryRequest(messages)
+        ? 'n'.repeat(budget * 0.4)
+        : 'feat: add the a, b and c modules'
+    );
+
+    await generateCommitMessageByDiff(
+      fileDiff('a.ts') + fileDiff('b.ts') + fileDiff('c.ts')
+    );
+
+    const requests = generateCommitMessage.mock.calls.map(
+      ([messages]) => messages
+    );
+    // three parts, their notes in two groups, then the message
+    expect(requests.map(isSummaryRequest)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      true,
+      false
+    ]);
+    expect(requests[3][1].content).toEqual(
+      `${'n'.repeat(budget * 0.4)}\n\n`.repeat(2)
+    );
+  });
+
+  it('should request the summaries of all parts at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    generateCommitMessage.mockImplementation(async (messages) => {
+      if (!isSummaryRequest(messages)) return 'feat: add the a and b modules';
+
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      return '- notes';
+    });
+
+    await generateCommitMessageByDiff(fileDiff('a.ts') + fileDiff('b.ts'));
+
+    expect(maxInFlight).toEqual(2);
+  });
+});
@@ -0,0 +1,133 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import type { ConfigType } from '../../src/commands/config';
+import {
+  fetchOllamaModels,
+  OllamaEngine,
+  ollamaEngineDefinition
+} from '../../src/engine/ollama';
+import { CANDIDATES_SAMPLING } from '../../src/engine/Engine';
+import { getEngineConfig } from '../../src/utils/engine';
+import type { Message } from '../../src/engine/Engine';
+
+describe('OllamaEngine', () => {
+  let server: Server;
+  let baseURL: string;
+  let chatRequests: any[];
+  let chatResponse: { status: number; body: unknown };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+
+        if (req.method === 'GET' && req.url === '/api/tags') {
+          res.end(
+            JSON.stringify({
+              models: [{ name: 'llama3:latest' }, { name: 'qwen2.5-coder:7b' }]
+            })
+          );
+          return;
+        }
+
+        chatRequests.push(JSON.parse(raw));
+        res.statusCode = chatResponse.status;
+        res.end(JSON.stringify(chatResponse.body));
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    baseURL = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    chatRequests = [];
+  });
+
+  const createEngine = () =>
+    new OllamaEngine({
+      apiKey: '',
+      model: 'llama3',
+      maxTokensInput: 4096,
+      maxTokensOutput: 500,
+      baseURL
+    });
+
+  const messages: Array<Message> = [
+    { role: 'system', content: 'system message' },
+    { role: 'user', content: 'diff --git a/file b/file' }
+  ];
+
+  it('should post to /api/chat and return the message content', async () => {
+    chatResponse = {
+      status: 200,
+      body: { message: { role: 'assistant', content: 'feat: add file' } }
+    };
+
+    const result = await createEngine().generateCommitMessage(messages);
+
+    expect(result).toEqual('feat: add file');
+    expect(chatRequests[0]).toMatchObject({
+      model: 'llama3',
+      messages,
+      stream: false,
+      options: { num_predict: 500, num_ctx: 4096 }
+    });
+  });
+
+  it('should sample candidates with the given sampling', async () => {
+    chatResponse = {
+      status: 200,
+      body: { message: { role: 'assistant', content: 'feat: add file' } }
+    };
+
+    await createEngine().generateCommitMessage(messages, {
+      sampling: CANDIDATES_SAMPLING
+    });
+
+    expect(chatRequests[0].options).toMatchObject({
+      temperature: CANDIDATES_SAMPLING.temperature,
+      top_p: CANDIDATES_SAMPLING.topP
+    });
+  });
+
+  it('should surface the error returned by the daemon', async () => {
+    chatResponse = {
+      status: 404,
+      body: { error: "model 'llama3' not found" }
+    };
+
+    await expect(
+      createEngine().generateCommitMessage(messages)
+    ).rejects.toThrow("Ollama provider error: model 'llama3' not found");
+  });
+
+  it('should list local models from /api/tags', async () => {
+    const models = await fetchOllamaModels(baseURL);
+
+    expect(models).toEqual(['llama3:latest', 'qwen2.5-coder:7b']);
+  });
+
+  it('should return no models when the daemon is unreachable', async () => {
+    const models = await fetchOllamaModels('http://127.0.0.1:1');
+
+    expect(models).toEqual([]);
+  });
+
+  it('should default to llama3 without OCO_MODEL', () => {
+    const config = { OCO_AI_PROVIDER: 'ollama' } as ConfigType;
+
+    expect(getEngineConfig(config, ollamaEngineDefinition).model).toEqual(
+      'llama3'
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CONFIG_KEYS, getConfig, setConfig } from '../../src/commands/config';
+import {
+  OpenAiCompatibleEngine,
+  openAiCompatibleEngineDefinition
+} from '../../src/engine/openAiCompatible';
+import { getEngineConfig } from '../../src/utils/engine';
+import type { Message } from '../../src/engine/Engine';
+
+interface StubRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+describe('OpenAiCompatibleEngine', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: StubRequest[];
+  let respond: (res: any) => void;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        requests.push({
+          url: req.url,
+          headers: req.headers,
+          body: JSON.parse(raw)
+        });
+        respond(res);
+      });
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    baseURL = `http://127.0.0.1:${port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const reply = (status: number, body: unknown) => (res: any) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const createEngine = (overrides = {}) =>
+    new OpenAiCompatibleEngine({
+      apiKey: 'test-key',
+      model: 'llama-3-8b-instruct',
+      maxTokensInput: 4096,
+      maxTokensOutput: 500,
+      baseURL,
+      ...overrides
+    });
+
+  const messages: Array<Message> = [
+    { role: 'system', content: 'system message' },
+    { role: 'user', content: 'diff --git a/file b/file' }
+  ];
+
+  it('should post chat completions and return the message content', async () => {
+    respond = reply(200, {
+      choices: [
+        {
+          message: {
+            role: 'assistant',
+            content: '<think>hmm</think>feat: add file'
+          }
+        }
+      ]
+    });
+
+    const result = await createEngine().generateCommitMessage(messages);
+
+    expect(result).toEqual('feat: add file');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toEqual('/v1/chat/completions');
+    expect(requests[0].body).toMatchObject({
+      model: 'llama-3-8b-instruct',
+      messages,
+      max_tokens: 500
+    });
+  });
+
+  it('should send the api key and custom headers', async () => {
+    respond = reply(200, { choices: [{ message: { content: 'fix: x' } }] });
+
+    await createEngine({
+      customHeaders: { 'X-Gateway-Token': 'secret' }
+    }).generateCommitMessage(messages);
+
+    expect(requests[0].headers.authorization).toEqual('Bearer test-key');
+    expect(requests[0].headers['x-gateway-token']).toEqual('secret');
+  });
+
+  it('should omit the Authorization header when no api key is set', async () => {
+    respond = reply(200, { choices: [{ message: { content: 'fix: x' } }] });
+
+    await createEngine({ apiKey: '' }).generateCommitMessage(messages);
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('should surface the error message returned by the gateway', async () => {
+    respond = reply(404, { error: { message: 'model not found' } });
+
+    await expect(
+      createEngine().generateCommitMessage(messages)
+    ).rejects.toThrow('OpenAI-compatible provider error: model not found');
+  });
+
+  it('should request n sampled choices for candidates', async () => {
+    respond = reply(200, {
+      choices: [
+        { message: { content: 'feat: add file' } },
+        { message: { content: 'chore: add file' } }
+      ]
+    });
+
+    const result = await createEngine().generateCommitMessageCandidates(
+      messages,
+      2
+    );
+
+    expect(result).toEqual(['feat: add file', 'chore: add file']);
+    expect(requests[0].body).toMatchObject({ n: 2, temperature: 0.9 });
+  });
+
+  it('should keep the configured sampling for candidates', async () => {
+    respond = reply(200, { choices: [{ message: { content: 'fix: x' } }] });
+
+    await createEngine({ temperature: 0.3 }).generateCommitMessageCandidates(
+      messages,
+      2
+    );
+
+    expect(requests[0].body).toMatchObject({
+      n: 2,
+      temperature: 0.3,
+      top_p: 0.95
+    });
+  });
+
+  it('should sample candidates with a default-initialised config', async () => {
+    respond = reply(200, { choices: [{ message: { content: 'fix: x' } }] });
+    const dir = mkdtempSync(join(tmpdir(), 'opencommit-test-'));
+
+    try {
+      // the first setConfig writes DEFAULT_CONFIG, like a fresh install
+      setConfig(
+        [
+          [CONFIG_KEYS.OCO_AI_PROVIDER, 'openai-compatible'],
+          [CONFIG_KEYS.OCO_MODEL, 'llama-3-8b-instruct'],
+          [CONFIG_KEYS.OCO_API_URL, baseURL]
+        ],
+        join(dir, '.opencommit')
+      );
+      const config = getConfig({
+        globalPath: join(dir, '.opencommit'),
+        envPath: join(dir, '.env')
+      });
+
+      await openAiCompatibleEngineDefinition.create(
+        getEngineConfig(config, openAiCompatibleEngineDefinition)
+      ).generateCommitMessageCandidates!(messages, 2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(requests[0].body).toMatchObject({
+      n: 2,
+      temperature: 0.9,
+      top_p: 0.95
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { execa } from 'execa';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  loadOpenCommitIgnore,
+  OpenCommitIgnore,
+  parseIgnoreRules
+} from '../../src/utils/openCommitIgnore';
+
+describe('OpenCommitIgnore', () => {
+  const ig = new OpenCommitIgnore([
+    ...parseIgnoreRules('*.log\n', '~/.config/opencommit/ignore'),
+    ...parseIgnoreRules(
+      '# fixtures are huge\nfixtures/\n*.snap\n!keep.snap\n',
+      '.opencommitignore'
+    ),
+    ...parseIgnoreRules('!debug.log\ngen/\n', 'src/.opencommitignore', 'src')
+  ]);
+
+  it('should apply the global file and skip comments', () => {
+    expect(ig.explain('build.log')).toMatchObject({
+      source: '~/.config/opencommit/ignore',
+      line: 1,
+      pattern: '*.log'
+    });
+    expect(ig.ignores('# fixtures are huge')).toBe(false);
+  });
+
+  it('should let the last matching rule win', () => {
+    expect(ig.ignores('test/app.snap')).toBe(true);
+    expect(ig.explain('test/keep.snap')).toMatchObject({
+      negated: true,
+      line: 4
+    });
+    expect(ig.ignores('test/keep.snap')).toBe(false);
+  });
+
+  it('should apply nested files relative to their directory', () => {
+    expect(ig.explain('src/gen/api.ts')).toMatchObject({
+      source: 'src/.opencommitignore',
+      line: 2
+    });
+    expect(ig.ignores('gen/api.ts')).toBe(false);
+    expect(ig.ignores('src/debug.log')).toBe(false);
+    expect(ig.ignores('debug.log')).toBe(true);
+  });
+
+  it('should not re-include files of ignored directories', () => {
+    expect(ig.explain('fixtures/keep.snap')).toMatchObject({
+      pattern: 'fixtures/'
+    });
+    expect(ig.ignores('fixtures/')).toBe(true);
+  });
+});
+
+describe('loadOpenCommitIgnore', () => {
+  let gitDir: string;
+
+  beforeAll(async () => {
+    gitDir = mkdtempSync(path.join(tmpdir(), 'opencommit-test-'));
+    await execa('git', ['init', '-q'], { cwd: gitDir });
+
+    mkdirSync(path.join(gitDir, 'packages', 'app'), { recursive: true });
+    writeFileSync(path.join(gitDir, '.gitignore'), '/.opencommitignore\n');
+    writeFileSync(path.join(gitDir, '.opencommitignore'), '*.csv\n');
+    writeFileSync(path.join(gitDir, 'global-ignore'), '*.csv\n*.tsv\n');
+    writeFileSync(
+      path.join(gitDir, 'packages', '.opencommitignore'),
+      'app/data/\n'
+    );
+    writeFileSync(
+      path.join(gitDir, 'packages', 'app', '.opencommitignore'),
+      '!report.csv\n'
+    );
+  });
+
+  afterAll(() => {
+    rmSync(gitDir, { recursive: true, force: true });
+  });
+
+  it('should order the global, root and nested files by depth', async () => {
+    const ig = await loadOpenCommitIgnore(
+      gitDir,
+      path.join(gitDir, 'global-ignore')
+    );
+
+    expect(ig.rules.map(({ source }) => source)).toEqual([
+      path.join(gitDir, 'global-ignore'),
+      path.join(gitDir, 'global-ignore'),
+      '.opencommitignore',
+      'packages/.opencommitignore',
+      'packages/app/.opencommitignore'
+    ]);
+    expect(ig.ignores('stats.tsv')).toBe(true);
+    expect(ig.ignores('packages/app/report.csv')).toBe(false);
+    expect(ig.ignores('packages/app/data/x.json')).toBe(true);
+  });
+});
@@ -0,0 +1,252 @@
+import { execa } from 'execa';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { jsonPreprocessor } from '../../src/preprocessors/json';
+import { describeNotebookChange } from '../../src/preprocessors/notebook';
+import { getPreprocessor } from '../../src/preprocessors/registry';
+import { describeTableChange } from '../../src/preprocessors/table';
+import { condenseDiff } from '../../src/utils/condenseDiff';
+import { preprocessDiff } from '../../src/utils/preprocessDiff';
+
+const lines = (...content: string[]) => content.join('\n');
+
+const notebook = (
+  ...cells: Array<{ type?: string; source: string; outputs?: unknown[] }>
+) =>
+  JSON.stringify({
+    cells: cells.map(({ type = 'code', source, outputs = [] }) => ({
+      cell_type: type,
+      metadata: {},
+      source: source.split(/(?<=\n)/),
+      outputs
+    })),
+    metadata: {},
+    nbformat: 4,
+    nbformat_minor: 5
+  });
+
+const image = { output_type: 'display_data', data: { 'image/png': 'iVBOR' } };
+
+const versions = (oldContent: string, newContent: string, file: string) => ({
+  oldPath: file,
+  newPath: file,
+  oldContent,
+  newContent
+});
+
+describe('describeNotebookChange', () => {
+  it('should diff changed cell sources and leave outputs out', () => {
+    const before = notebook(
+      { source: 'import pandas as pd' },
+      {
+        source: lines('df = pd.read_csv("a.csv")', 'df.plot()'),
+        outputs: [image]
+      },
+      { type: 'markdown', source: '# Draft' }
+    );
+    const after = notebook(
+      { source: 'import pandas as pd' },
+      {
+        source: lines('df = pd.read_csv("b.csv")', 'df.plot()'),
+        outputs: [{ ...image, data: { 'image/png': 'iVBOX' } }]
+      },
+      { type: 'markdown', source: '# Results' },
+      { source: 'df.describe()' }
+    );
+
+    expect(
+      describeNotebookChange(versions(before, after, 'eda.ipynb'))
+    ).toEqual([
+      'notebook cells, outputs and metadata left out:',
+      'code cell 2 changed:',
+      '-df = pd.read_csv("a.csv")',
+      '+df = pd.read_csv("b.csv")',
+      ' df.plot()',
+      'markdown cell 3 changed:',
+      '-# Draft',
+      '+# Results',
+      'code cell 4 added:',
+      '+df.describe()'
+    ]);
+  });
+
+  it('should count cells whose outputs changed only', () => {
+    const before = notebook({ source: 'df.plot()', outputs: [image] });
+    const after = notebook({ source: 'df.plot()', outputs: [] });
+
+    expect(
+      describeNotebookChange(versions(before, after, 'eda.ipynb'))
+    ).toEqual([
+      'notebook cells, outputs and metadata left out:',
+      'outputs of 1 cell changed'
+    ]);
+  });
+
+  it('should shorten long cells to the lines around the change', () => {
+    const source = Array.from({ length: 10 }, (_, i) => `x${i} = ${i}`);
+    const changed = [...source];
+    changed[7] = 'x7 = 70';
+
+    expect(
+      describeNotebookChange(
+        versions(
+          notebook({ source: lines(...source) }),
+          notebook({ source: lines(...changed) }),
+          'eda.ipynb'
+        )
+      )
+    ).toEqual([
+      'notebook cells, outputs and metadata left out:',
+      'code cell 1 changed:',
+      ' ...',
+      ' x5 = 5',
+      ' x6 = 6',
+      '-x7 = 7',
+      '+x7 = 70',
+      ' x8 = 8',
+      ' x9 = 9'
+    ]);
+  });
+});
+
+describe('describeTableChange', () => {
+  it('should compare columns and row counts', () => {
+    expect(
+      describeTableChange(
+        versions(
+          lines('id,name,phone', '1,"Doe, Jane",555', '2,Joe,556', ''),
+          lines('id,name,email', '1,"Doe, Jane",jane@example.com', ''),
+          'users.csv'
+        )
+      )
+    ).toEqual([
+      'table columns and row count, values left out:',
+      'columns: id, name, email',
+      'columns added: email',
+      'columns removed: phone',
+      'rows: 2 → 1'
+    ]);
+  });
+});
+
+describe('jsonPreprocessor', () => {
+  it('should compare the schema and record counts of fixtures', () => {
+    const before = JSON.stringify({ users: [{ id: 1, phone: '555' }] });
+    const after = JSON.stringify({
+      users: [
+        { id: '1', email: 'jane@example.com' },
+        { id: '2', email: 'joe@example.com' }
+      ]
+    });
+
+    expect(
+      jsonPreprocessor.preprocess!(
+        versions(before, after, 'test/fixtures/users.json')
+      )
+    ).toEqual([
+      'data schema and record counts, values left out:',
+      'records: users 1 → 2',
+      'schema added: users[].id: string, users[].email: string',
+      'schema removed: users[].id: number, users[].phone: string'
+    ]);
+  });
+
+  it('should count JSON Lines records anywhere', () => {
+    expect(
+      jsonPreprocessor.preprocess!(
+        versions('{"a":1}\n', '{"a":2}\n{"a":3}\n', 'events.jsonl')
+      )
+    ).toEqual([
+      'data schema and record counts, values left out:',
+      'records: (root) 1 → 2'
+    ]);
+  });
+
+  it('should keep the diff of configuration and invalid JSON', () => {
+    expect(getPreprocessor('package.json')).toBeUndefined();
+    expect(getPreprocessor('test/fixtures/users.json')?.name).toEqual('json');
+    expect(
+      jsonPreprocessor.preprocess!(
+        versions('{}', '<<<<<<< HEAD', 'data/users.json')
+      )
+    ).toBeUndefined();
+  });
+});
+
+describe('preprocessor registry', () => {
+  it('should find preprocessors by extension, ignoring case', () => {
+    expect(getPreprocessor('notebooks/EDA.IPYNB')?.name).toEqual('notebook');
+    expect(getPreprocessor('fixtures/users.tsv')?.name).toEqual('table');
+    expect(getPreprocessor('src/index.ts')).toBeUndefined();
+  });
+
+  it('should not condense SQL migrations', () => {
+    const migration = lines(
+      'diff --git a/migrations/001_users.sql b/migrations/001_users.sql',
+      'index 3b18e51..a9c2f4d 100644',
+      '--- a/migrations/001_users.sql',
+      '+++ b/migrations/001_users.sql',
+      '@@ -1,5 +1,5 @@',
+      ' CREATE TABLE users (',
+      '   id INTEGER PRIMARY KEY,',
+      '-  name TEXT',
+      '+  name TEXT NOT NULL',
+      ' );',
+      ' ',
+      ''
+    );
+
+    expect(condenseDiff(migration)).toEqual(migration);
+  });
+});
+
+describe('preprocessDiff', () => {
+  let gitDir: string;
+
+  beforeAll(async () => {
+    gitDir = mkdtempSync(path.join(tmpdir(), 'opencommit-test-'));
+    await execa('git', ['init', '-q'], { cwd: gitDir });
+
+    mkdirSync(path.join(gitDir, 'notebooks'));
+    writeFileSync(
+      path.join(gitDir, 'notebooks/eda.ipynb'),
+      notebook({ source: 'df.plot()', outputs: [image] })
+    );
+    writeFileSync(path.join(gitDir, 'app.py'), 'print("hi")\n');
+    await execa('git', ['add', '.'], { cwd: gitDir });
+  });
+
+  afterAll(() => {
+    rmSync(gitDir, { recursive: true, force: true });
+  });
+
+  it('should replace the hunks of notebooks and keep other files', async () => {
+    const { stdout: diff } = await execa('git', ['diff', '--staged'], {
+      cwd: gitDir
+    });
+
+    const preprocessed = await preprocessDiff(diff, gitDir);
+
+    expect(preprocessed).toContain(
+      lines(
+        '+++ b/notebooks/eda.ipynb',
+        'notebook cells, outputs and metadata left out:',
+        'code cell 1 added:',
+        '+df.plot()'
+      )
+    );
+    expect(preprocessed).not.toContain('image/png');
+    expect(preprocessed).toContain('+print("hi")');
+  });
+
+  it('should leave files condenseDiff summarized', async () => {
+    const deleted = lines(
+      'diff --git a/notebooks/old.ipynb b/notebooks/old.ipynb',
+      'deleted notebooks/old.ipynb (12 lines)',
+      ''
+    );
+
+    expect(await preprocessDiff(deleted, gitDir)).toEqual(deleted);
+  });
+});
@@ -0,0 +1,50 @@
+import { jest } from '@jest/globals';
+import type { Message } from '../../src/engine/Engine';
+
+const generateCommitMessage =
+  jest.fn<(messages: Array<Message>) => Promise<string>>();
+
+jest.unstable_mockModule('../src/utils/engine', () => ({
+  getEngine: () => ({ config: {}, client: null, generateCommitMessage }),
+  getTokenizer: () => ({
+    countTokens: (content: string) => content.length,
+    countModelTokens: async (content: string) => content.length
+  })
+}));
+
+const { refineCommitMessageByDiff } = await import(
+  '../../src/generateCommitMessageFromGitDiff'
+);
+
+describe('refineCommitMessageByDiff', () => {
+  const diff = 'diff --git a/db/migrate.sql b/db/migrate.sql\n+ALTER TABLE';
+
+  beforeEach(() => {
+    generateCommitMessage.mockReset();
+    generateCommitMessage.mockResolvedValue('feat: add users migration');
+  });
+
+  it('should send previous messages and feedback as conversation turns', async () => {
+    const result = await refineCommitMessageByDiff(diff, [
+      { commitMessage: 'feat: update db', feedback: 'mention the migration' },
+      { commitMessage: 'feat: add db migration', feedback: 'name the table' }
+    ]);
+
+    expect(result).toEqual('feat: add users migration');
+
+    const messages = generateCommitMessage.mock.calls[0][0];
+    const turns = messages.slice(messages.findIndex((m) => m.content === diff));
+
+    expect(turns.map(({ role }) => role)).toEqual([
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+      'user'
+    ]);
+    expect(turns[1].content).toEqual('feat: update db');
+    expect(turns[2].content).toContain('mention the migration');
+    expect(turns[3].content).toEqual('feat: add db migration');
+    expect(turns[4].content).toContain('name the table');
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  getEngineDefinition,
+  getEngineDefinitions,
+  loadEngineModule
+} from '../../src/engine/registry';
+import { prepareFile } from './utils';
+
+describe('engine registry', () => {
+  let engineModule: { filePath: string; cleanup: () => Promise<void> };
+
+  afterEach(async () => {
+    if (engineModule) await engineModule.cleanup();
+  });
+
+  it('should register the built-in engines', () => {
+    const names = getEngineDefinitions().map(({ name }) => name);
+
+    expect(names).toEqual(['gemini', 'openai-compatible', 'ollama', 'replay']);
+    expect(getEngineDefinition('gemini')).toMatchObject({
+      defaultModel: 'gemini-2.5-flash',
+      requiredConfigKeys: ['OCO_API_KEY']
+    });
+  });
+
+  it('should load and register an engine from a local module', async () => {
+    engineModule = await prepareFile(
+      'our-engine.mjs',
+      `export default {
+        name: 'our-engine',
+        models: ['our-model'],
+        defaultModel: 'our-model',
+        create: (config) => ({
+          config,
+          client: null,
+          generateCommitMessage: async (messages) =>
+            \`feat: \${config.model} saw \${messages.length} messages\`
+        })
+      };`
+    );
+
+    const definition = await loadEngineModule(engineModule.filePath);
+
+    expect(getEngineDefinition('our-engine')).toBe(definition);
+
+    const engine = definition.create({
+      apiKey: '',
+      model: 'our-model',
+      maxTokensInput: 4096,
+      maxTokensOutput: 500
+    });
+
+    await expect(
+      engine.generateCommitMessage([{ role: 'user', content: 'diff' }])
+    ).resolves.toEqual('feat: our-model saw 1 messages');
+  });
+
+  it('should reject modules without an engine definition', async () => {
+    engineModule = await prepareFile(
+      'not-an-engine.mjs',
+      `export const name = 'nope';`
+    );
+
+    await expect(loadEngineModule(engineModule.filePath)).rejects.toThrow(
+      'must export an engine definition'
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FatalEngineError } from '../../src/engine/errors';
+import {
+  getFixturePath,
+  RecordingEngine,
+  ReplayEngine
+} from '../../src/engine/replay';
+import type { AiEngine, Message } from '../../src/engine/Engine';
+
+describe('replay engine', () => {
+  const messages: Array<Message> = [
+    { role: 'system', content: 'system message' },
+    { role: 'user', content: 'diff --git a/index.ts b/index.ts' }
+  ];
+
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'opencommit-fixtures-'));
+  });
+
+  afterEach(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  const createReplayEngine = () =>
+    new ReplayEngine({
+      apiKey: '',
+      model: 'gemini-2.5-flash',
+      maxTokensInput: 4096,
+      maxTokensOutput: 500,
+      fixturesDir
+    });
+
+  it('should replay what was recorded for the same messages', async () => {
+    const engine = {
+      config: {},
+      client: null,
+      generateCommitMessage: jest.fn(async () => 'feat: add index')
+    } as unknown as AiEngine;
+
+    await new RecordingEngine(engine, fixturesDir).generateCommitMessage(
+      messages
+    );
+
+    const fixture = JSON.parse(
+      await readFile(await getFixturePath(fixturesDir, messages), 'utf8')
+    );
+    expect(fixture).toEqual({ messages, response: 'feat: add index' });
+
+    await expect(
+      createReplayEngine().generateCommitMessage(messages)
+    ).resolves.toEqual('feat: add index');
+  });
+
+  it('should record the complete message of a stream', async () => {
+    const engine = {
+      config: {},
+      client: null,
+      generateCommitMessage: jest.fn(),
+      generateCommitMessageStream: jest.fn(
+        async (_messages: Array<Message>, onChunk: (chunk: string) => void) => {
+          onChunk('fix: ');
+          onChunk('typo');
+          return 'fix: typo';
+        }
+      )
+    } as unknown as AiEngine;
+
+    const chunks: string[] = [];
+    await new RecordingEngine(engine, fixturesDir).generateCommitMessageStream!(
+      messages,
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(chunks).toEqual(['fix: ', 'typo']);
+    await expect(
+      createReplayEngine().generateCommitMessage(messages)
+    ).resolves.toEqual('fix: typo');
+  });
+
+  it('should pass candidates on and record the first one', async () => {
+    const engine = {
+      config: {},
+      client: null,
+      generateCommitMessage: jest.fn(),
+      generateCommitMessageCandidates: jest.fn(async () => [
+        'feat: add index',
+        'feat: create index.ts'
+      ])
+    } as unknown as AiEngine;
+
+    await expect(
+      new RecordingEngine(engine, fixturesDir).generateCommitMessageCandidates!(
+        messages,
+        2
+      )
+    ).resolves.toEqual(['feat: add index', 'feat: create index.ts']);
+    await expect(
+      createReplayEngine().generateCommitMessage(messages)
+    ).resolves.toEqual('feat: add index');
+  });
+
+  it('should fail on requests without a fixture', async () => {
+    await expect(
+      createReplayEngine().generateCommitMessage(messages)
+    ).rejects.toBeInstanceOf(FatalEngineError);
+    expect(await readdir(fixturesDir)).toEqual([]);
+  });
+});
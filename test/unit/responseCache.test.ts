@@ -0,0 +1,199 @@
+import { mkdtemp, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CachingEngine } from '../../src/engine/cache';
+import { RetryableEngineError } from '../../src/engine/errors';
+import { FallbackEngine } from '../../src/engine/fallback';
+import { ResponseCache } from '../../src/utils/responseCache';
+import type {
+  AiEngine,
+  AiEngineConfig,
+  Message
+} from '../../src/engine/Engine';
+
+describe('response cache', () => {
+  const messages: Array<Message> = [
+    { role: 'system', content: 'system message' },
+    { role: 'user', content: 'diff --git a/index.ts b/index.ts' }
+  ];
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'opencommit-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createCache = (options: { ttlMs?: number; maxBytes?: number } = {}) =>
+    new ResponseCache({
+      dir,
+      ttlMs: options.ttlMs ?? 60_000,
+      maxBytes: options.maxBytes ?? 1024 * 1024
+    });
+
+  const createEngine = (
+    model = 'gemini-2.5-flash',
+    config: Partial<AiEngineConfig> = {}
+  ) =>
+    ({
+      config: { model, ...config },
+      client: null,
+      generateCommitMessage: jest.fn(async () => 'feat: add index'),
+      generateCommitMessageStream: jest.fn(async (_messages, onChunk) => {
+        onChunk('feat: ');
+        onChunk('add index');
+        return 'feat: add index';
+      })
+    } as unknown as AiEngine);
+
+  it('should answer the same request from the cache', async () => {
+    const engine = createEngine();
+    const cachingEngine = new CachingEngine(engine, createCache());
+
+    await cachingEngine.generateCommitMessage(messages);
+    const result = await cachingEngine.generateCommitMessage(messages);
+
+    expect(result).toEqual('feat: add index');
+    expect(engine.generateCommitMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should key the cache by model and messages', async () => {
+    const cache = createCache();
+    const engine = createEngine();
+    const otherModel = createEngine('gemini-2.5-pro');
+
+    await new CachingEngine(engine, cache).generateCommitMessage(messages);
+    await new CachingEngine(engine, cache).generateCommitMessage([
+      messages[0],
+      { role: 'user', content: 'diff --git a/cli.ts b/cli.ts' }
+    ]);
+    await new CachingEngine(otherModel, cache).generateCommitMessage(messages);
+
+    expect(engine.generateCommitMessage).toHaveBeenCalledTimes(2);
+    expect(otherModel.generateCommitMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should key the cache by provider and configured sampling', async () => {
+    const cache = createCache();
+    const engine = createEngine();
+    const warmer = createEngine('gemini-2.5-flash', { temperature: 0.7 });
+
+    await new CachingEngine(engine, cache, 'gemini').generateCommitMessage(
+      messages
+    );
+    await new CachingEngine(warmer, cache, 'gemini').generateCommitMessage(
+      messages
+    );
+    await new CachingEngine(engine, cache, 'openrouter').generateCommitMessage(
+      messages
+    );
+
+    expect(warmer.generateCommitMessage).toHaveBeenCalledTimes(1);
+    expect(engine.generateCommitMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache the responses of fallback models', async () => {
+    const primary = createEngine();
+    (primary.generateCommitMessage as jest.Mock).mockImplementationOnce(
+      async () => {
+        throw new RetryableEngineError('The model is overloaded', {
+          status: 503
+        });
+      }
+    );
+    const fallback = createEngine('gemini-2.5-pro');
+    const onFallback = jest.fn();
+    const cachingEngine = new CachingEngine(
+      new FallbackEngine([
+        { label: 'gemini-2.5-flash', engine: primary },
+        { label: 'gemini-2.5-pro', engine: fallback }
+      ]),
+      createCache()
+    );
+
+    await cachingEngine.generateCommitMessage(messages, { onFallback });
+    await cachingEngine.generateCommitMessage(messages);
+    await cachingEngine.generateCommitMessage(messages);
+
+    expect(onFallback).toHaveBeenCalledWith('gemini-2.5-pro');
+    expect(fallback.generateCommitMessage).toHaveBeenCalledTimes(1);
+    // the primary model answered the second request, the third is cached
+    expect(primary.generateCommitMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip cached responses with noCache but store the new one', async () => {
+    const engine = createEngine();
+    const cachingEngine = new CachingEngine(engine, createCache());
+
+    await cachingEngine.generateCommitMessage(messages);
+    await cachingEngine.generateCommitMessage(messages, { noCache: true });
+    await cachingEngine.generateCommitMessage(messages);
+
+    expect(engine.generateCommitMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay a cached stream as a single chunk', async () => {
+    const engine = createEngine();
+    const cachingEngine = new CachingEngine(engine, createCache());
+    const chunks: string[] = [];
+
+    await cachingEngine.generateCommitMessageStream!(messages, () => {});
+    const result = await cachingEngine.generateCommitMessageStream!(
+      messages,
+      (chunk) => chunks.push(chunk)
+    );
+
+    expect(result).toEqual('feat: add index');
+    expect(chunks).toEqual(['feat: add index']);
+    expect(engine.generateCommitMessageStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache empty responses', async () => {
+    const engine = createEngine();
+    (engine.generateCommitMessage as jest.Mock).mockResolvedValue('');
+    const cachingEngine = new CachingEngine(engine, createCache());
+
+    await cachingEngine.generateCommitMessage(messages);
+    await cachingEngine.generateCommitMessage(messages);
+
+    expect(engine.generateCommitMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const cache = createCache({ ttlMs: 1000 });
+
+    await cache.set('key', 'feat: add index');
+    const past = new Date(Date.now() - 2000);
+    await utimes(join(dir, 'key.json'), past, past);
+
+    expect(await cache.stats()).toMatchObject({ entries: 1, expired: 1 });
+    await expect(cache.get('key')).resolves.toBeUndefined();
+    expect(await cache.stats()).toMatchObject({ entries: 0 });
+  });
+
+  it('should remove the oldest entries beyond the size limit', async () => {
+    const cache = createCache({ maxBytes: 50 });
+
+    await writeFile(join(dir, 'old.json'), JSON.stringify('x'.repeat(20)));
+    const past = new Date(Date.now() - 1000);
+    await utimes(join(dir, 'old.json'), past, past);
+
+    await cache.set('new', 'y'.repeat(40));
+
+    await expect(cache.get('old')).resolves.toBeUndefined();
+    await expect(cache.get('new')).resolves.toEqual('y'.repeat(40));
+  });
+
+  it('should clear all entries', async () => {
+    const cache = createCache();
+
+    await cache.set('a', 'feat: a');
+    await cache.set('b', 'feat: b');
+
+    await expect(cache.clear()).resolves.toEqual(2);
+    expect(await cache.stats()).toMatchObject({ dir, entries: 0, bytes: 0 });
+  });
+});
@@ -0,0 +1,254 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import {
+  CancelledEngineError,
+  FatalEngineError,
+  parseRetryAfter,
+  RetryableEngineError,
+  TimeoutEngineError,
+  toEngineError
+} from '../../src/engine/errors';
+import {
+  getRetryDelay,
+  MAX_RETRY_DELAY_MS,
+  RetryingEngine,
+  RetryPolicy,
+  withRetry
+} from '../../src/engine/retry';
+import type { AiEngine } from '../../src/engine/Engine';
+
+const axiosError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError(
+    `Request failed with status code ${status}`,
+    String(status),
+    undefined,
+    undefined,
+    {
+      status,
+      statusText: '',
+      headers,
+      config: { headers: new AxiosHeaders() },
+      data: { error: { message: `status ${status}` } }
+    }
+  );
+
+describe('toEngineError', () => {
+  it('should classify rate limits and overloaded servers as retryable', () => {
+    const error = toEngineError(axiosError(429, { 'retry-after': '7' }));
+
+    expect(error).toBeInstanceOf(RetryableEngineError);
+    expect(error.status).toEqual(429);
+    expect((error as RetryableEngineError).retryAfterMs).toEqual(7000);
+    expect(toEngineError(axiosError(503))).toBeInstanceOf(RetryableEngineError);
+  });
+
+  it('should classify client errors as fatal', () => {
+    const error = toEngineError(axiosError(401), 'Ollama provider error');
+
+    expect(error).toBeInstanceOf(FatalEngineError);
+    expect(error.message).toEqual('Ollama provider error: status 401');
+  });
+
+  it('should read the retry delay from Gemini fetch errors', () => {
+    const geminiError = Object.assign(new Error('[429 Too Many Requests]'), {
+      status: 429,
+      errorDetails: [
+        {
+          '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+          retryDelay: '37s'
+        }
+      ]
+    });
+
+    const error = toEngineError(geminiError);
+
+    expect(error).toBeInstanceOf(RetryableEngineError);
+    expect((error as RetryableEngineError).retryAfterMs).toEqual(37000);
+  });
+
+  it('should classify network failures as retryable', () => {
+    const error = toEngineError(
+      Object.assign(new TypeError('fetch failed'), {
+        cause: { code: 'ECONNRESET' }
+      })
+    );
+
+    expect(error).toBeInstanceOf(RetryableEngineError);
+    expect(toEngineError(new Error('boom'))).toBeInstanceOf(FatalEngineError);
+  });
+
+  it('should parse Retry-After dates', () => {
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+
+    expect(parseRetryAfter(inTenSeconds)).toBeGreaterThan(8000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 100, jitter: 0 };
+  let waits: number[];
+  const wait = async (ms: number) => waits.push(ms);
+
+  beforeEach(() => {
+    waits = [];
+  });
+
+  it('should retry retryable errors with exponential backoff', async () => {
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(axiosError(503))
+      .mockRejectedValueOnce(axiosError(429))
+      .mockResolvedValue('feat: done');
+
+    await expect(withRetry(request, policy, wait)).resolves.toEqual(
+      'feat: done'
+    );
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(waits).toEqual([100, 200]);
+  });
+
+  it('should honor Retry-After over the backoff', async () => {
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(axiosError(429, { 'retry-after': '2' }))
+      .mockResolvedValue('feat: done');
+
+    await withRetry(request, policy, wait);
+
+    expect(waits).toEqual([2000]);
+  });
+
+  it('should not retry fatal errors', async () => {
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(axiosError(400));
+
+    await expect(withRetry(request, policy, wait)).rejects.toBeInstanceOf(
+      FatalEngineError
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(axiosError(503));
+
+    await expect(withRetry(request, policy, wait)).rejects.toBeInstanceOf(
+      RetryableEngineError
+    );
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should abort and retry requests exceeding the timeout', async () => {
+    const signals: AbortSignal[] = [];
+    const request = jest
+      .fn<(signal: AbortSignal) => Promise<string>>()
+      .mockImplementationOnce((signal) => {
+        signals.push(signal);
+        return new Promise(() => {});
+      })
+      .mockResolvedValue('feat: done');
+
+    await expect(
+      withRetry(request, { ...policy, timeoutMs: 10 }, wait)
+    ).resolves.toEqual('feat: done');
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('should report the timeout once attempts run out', async () => {
+    const request = jest
+      .fn<() => Promise<string>>()
+      .mockReturnValue(new Promise(() => {}));
+
+    await expect(
+      withRetry(request, { ...policy, maxAttempts: 1, timeoutMs: 10 }, wait)
+    ).rejects.toBeInstanceOf(TimeoutEngineError);
+  });
+
+  it('should not retry cancelled requests', async () => {
+    const controller = new AbortController();
+    const request = jest.fn<() => Promise<string>>().mockImplementation(() => {
+      controller.abort();
+      return new Promise(() => {});
+    });
+
+    await expect(
+      withRetry(request, policy, wait, controller.signal)
+    ).rejects.toBeInstanceOf(CancelledEngineError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should randomize the delay by the jitter and cap it', () => {
+    const jittery = { ...policy, jitter: 0.5 };
+
+    expect(getRetryDelay(jittery, 1, undefined, () => 0)).toEqual(50);
+    expect(getRetryDelay(jittery, 1, undefined, () => 1)).toEqual(100);
+    expect(getRetryDelay(policy, 30)).toEqual(MAX_RETRY_DELAY_MS);
+  });
+
+  it('should wrap any engine', async () => {
+    const engine = {
+      config: {},
+      client: null,
+      generateCommitMessage: jest
+        .fn<AiEngine['generateCommitMessage']>()
+        .mockRejectedValueOnce(axiosError(503))
+        .mockResolvedValue('fix: retried')
+    } as unknown as AiEngine;
+
+    const retrying = new RetryingEngine(engine, {
+      ...policy,
+      baseDelayMs: 0
+    });
+
+    await expect(
+      retrying.generateCommitMessage([{ role: 'user', content: 'diff' }])
+    ).resolves.toEqual('fix: retried');
+    expect(retrying.config).toBe(engine.config);
+  });
+
+  it('should only stream when the wrapped engine can', () => {
+    const engine = {
+      config: {},
+      client: null,
+      generateCommitMessage: jest.fn()
+    } as unknown as AiEngine;
+
+    expect(
+      new RetryingEngine(engine, policy).generateCommitMessageStream
+    ).toBeUndefined();
+  });
+
+  it('should not retry a stream once chunks were emitted', async () => {
+    const generateCommitMessageStream = jest
+      .fn<NonNullable<AiEngine['generateCommitMessageStream']>>()
+      .mockImplementation(async (_messages, onChunk) => {
+        onChunk('feat: ');
+        throw axiosError(503);
+      });
+
+    const engine = {
+      config: {},
+      client: null,
+      generateCommitMessage: jest.fn(),
+      generateCommitMessageStream
+    } as unknown as AiEngine;
+
+    const chunks: string[] = [];
+    const retrying = new RetryingEngine(engine, {
+      ...policy,
+      baseDelayMs: 0
+    });
+
+    await expect(
+      retrying.generateCommitMessageStream!(
+        [{ role: 'user', content: 'diff' }],
+        (chunk) => chunks.push(chunk)
+      )
+    ).rejects.toBeInstanceOf(FatalEngineError);
+    expect(generateCommitMessageStream).toHaveBeenCalledTimes(1);
+    expect(chunks).toEqual(['feat: ']);
+  });
+});
@@ -0,0 +1,141 @@
+import { CancelledEngineError } from '../../src/engine/errors';
+import { RequestScheduler, SchedulingEngine } from '../../src/engine/scheduler';
+import type { AiEngine, Message } from '../../src/engine/Engine';
+
+// a request that stays in flight until `finish()` is called
+const deferred = () => {
+  let finish!: (value: string) => void;
+  const promise = new Promise<string>((resolve) => (finish = resolve));
+  return { promise, finish };
+};
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should keep at most `concurrency` requests in flight, in order', async () => {
+    const scheduler = new RequestScheduler({
+      concurrency: 2,
+      requestsPerMinute: 0
+    });
+    const requests = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const results = requests.map(({ promise }, i) =>
+      scheduler.schedule(() => {
+        started.push(i);
+        return promise;
+      })
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    requests[1].finish('second');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    requests[0].finish('first');
+    requests[2].finish('third');
+    await expect(Promise.all(results)).resolves.toEqual([
+      'first',
+      'second',
+      'third'
+    ]);
+  });
+
+  it('should start at most `requestsPerMinute` requests within a minute', async () => {
+    const scheduler = new RequestScheduler({
+      concurrency: 10,
+      requestsPerMinute: 2
+    });
+    const started: number[] = [];
+
+    const results = [0, 1, 2, 3, 4].map((i) =>
+      scheduler.schedule(async () => {
+        started.push(i);
+        return i;
+      })
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    await jest.advanceTimersByTimeAsync(59_999);
+    expect(started).toEqual([0, 1]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    await jest.advanceTimersByTimeAsync(60_000);
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should free the slot of a failed request', async () => {
+    const scheduler = new RequestScheduler({
+      concurrency: 1,
+      requestsPerMinute: 0
+    });
+
+    const failed = scheduler.schedule(() =>
+      Promise.reject(new Error('overloaded'))
+    );
+    const next = scheduler.schedule(async () => 'next');
+
+    await expect(failed).rejects.toThrow('overloaded');
+    await expect(next).resolves.toEqual('next');
+  });
+
+  it('should drop waiting requests once their signal aborts', async () => {
+    const scheduler = new RequestScheduler({
+      concurrency: 1,
+      requestsPerMinute: 0
+    });
+    const running = deferred();
+    const controller = new AbortController();
+    const waitingRequest = jest.fn(async () => 'waiting');
+
+    scheduler.schedule(() => running.promise);
+    const waiting = scheduler.schedule(waitingRequest, controller.signal);
+
+    controller.abort(new Error('Ctrl-C'));
+    running.finish('done');
+
+    await expect(waiting).rejects.toThrow('Ctrl-C');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(waitingRequest).not.toHaveBeenCalled();
+  });
+});
+
+describe('SchedulingEngine', () => {
+  const messages: Array<Message> = [{ role: 'user', content: 'diff' }];
+
+  it('should report requests cancelled while waiting for a slot', async () => {
+    const running = deferred();
+    const engine = new SchedulingEngine(
+      {
+        config: {},
+        client: null,
+        generateCommitMessage: () => running.promise
+      } as unknown as AiEngine,
+      new RequestScheduler({ concurrency: 1, requestsPerMinute: 0 })
+    );
+    const controller = new AbortController();
+
+    const first = engine.generateCommitMessage(messages);
+    const second = engine.generateCommitMessage(messages, {
+      signal: controller.signal
+    });
+    controller.abort();
+
+    await expect(second).rejects.toBeInstanceOf(CancelledEngineError);
+
+    running.finish('feat: scheduled');
+    await expect(first).resolves.toEqual('feat: scheduled');
+  });
+});
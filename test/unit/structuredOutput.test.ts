@@ -0,0 +1,72 @@
+import { formatStructuredCommit } from '../../src/modules/structured/format';
+import { parseStructuredCommit } from '../../src/modules/structured/schema';
+
+describe('parseStructuredCommit', () => {
+  it('should parse replies wrapped in a code block', () => {
+    const commit = parseStructuredCommit(
+      '```json\n{"type": "feat", "scope": "auth", "subject": "add login"}\n```'
+    );
+
+    expect(commit).toEqual({
+      type: 'feat',
+      scope: 'auth',
+      subject: 'add login',
+      breaking: false,
+      footers: []
+    });
+  });
+
+  it('should reject replies that are no JSON', () => {
+    expect(() => parseStructuredCommit('feat: add login')).toThrow(
+      'The model did not reply with a JSON object'
+    );
+  });
+
+  it('should reject objects not matching the schema', () => {
+    expect(() =>
+      parseStructuredCommit('{"type": "feat", "breaking": "yes"}')
+    ).toThrow(/invalid commit: subject: Required, breaking: Expected boolean/);
+  });
+});
+
+describe('formatStructuredCommit', () => {
+  const commit = parseStructuredCommit(
+    JSON.stringify({
+      type: 'fix',
+      scope: 'server',
+      subject: 'read the port from the env',
+      body: 'The port was hardcoded.',
+      breaking: false,
+      footers: [{ token: 'Refs', value: '#42' }]
+    })
+  );
+
+  const plain = { emoji: false, omitScope: false, oneLineCommit: false };
+
+  it('should render header, body and footers', () => {
+    expect(formatStructuredCommit(commit, plain)).toEqual(
+      'fix(server): read the port from the env\n\nThe port was hardcoded.\n\nRefs: #42'
+    );
+  });
+
+  it('should honor OCO_EMOJI, OCO_OMIT_SCOPE and OCO_ONE_LINE_COMMIT', () => {
+    expect(formatStructuredCommit(commit, { ...plain, emoji: true })).toMatch(
+      /^🐛 \(server\): read the port from the env\n/
+    );
+    expect(
+      formatStructuredCommit(commit, { ...plain, omitScope: true })
+    ).toMatch(/^fix: read the port from the env\n/);
+    expect(
+      formatStructuredCommit(commit, { ...plain, oneLineCommit: true })
+    ).toEqual('fix(server): read the port from the env');
+  });
+
+  it('should mark breaking changes in the header', () => {
+    expect(
+      formatStructuredCommit(
+        { ...commit, type: 'Feat', breaking: true, body: null, footers: [] },
+        plain
+      )
+    ).toEqual('feat(server)!: read the port from the env');
+  });
+});
@@ -0,0 +1,87 @@
+import { jest } from '@jest/globals';
+import { Tiktoken } from '@dqbd/tiktoken/lite';
+
+// the real encoder, with its constructions counted
+const createEncoding = jest.fn(
+  (...args: ConstructorParameters<typeof Tiktoken>) => new Tiktoken(...args)
+);
+
+jest.unstable_mockModule('@dqbd/tiktoken/lite', () => ({
+  Tiktoken: createEncoding
+}));
+
+const { getDiffParts } = await import(
+  '../../src/generateCommitMessageFromGitDiff'
+);
+const { calibrateTokenCount, estimateTokenCount, tokenCount } = await import(
+  '../../src/utils/tokenCount'
+);
+
+describe('token counting', () => {
+  it('should estimate punctuation as tokens of their own', () => {
+    expect(estimateTokenCount('')).toEqual(0);
+    expect(estimateTokenCount('+const answer = 42;')).toEqual(8);
+    expect(estimateTokenCount('internationalization')).toEqual(5);
+  });
+
+  it('should scale a local count to the exact count of a sample', () => {
+    const countTokens = calibrateTokenCount(tokenCount, 'a b c d', 8);
+
+    expect(countTokens('a b c d')).toEqual(8);
+    expect(countTokens('a b')).toEqual(4);
+    expect(calibrateTokenCount(tokenCount, 'a b', 2)).toBe(tokenCount);
+  });
+
+  it('should split diffs by what the model counts', () => {
+    const fileDiff = (file: string) =>
+      `diff --git a/${file} b/${file}\n+${'x'.repeat(100)}\n`;
+    const diff = fileDiff('a.ts') + fileDiff('b.ts');
+
+    expect(getDiffParts(diff, 4000, tokenCount)).toEqual([diff]);
+
+    // locally the diff is tiny, the model counts one and a half requests
+    const countTokens = calibrateTokenCount(tokenCount, diff, 6000);
+    expect(getDiffParts(diff, 4000, countTokens)).toEqual([
+      fileDiff('a.ts'),
+      fileDiff('b.ts')
+    ]);
+  });
+
+  describe('encoder reuse', () => {
+    // a 2k-line refactor, every line differs
+    const lines = Array.from(
+      { length: 2_000 },
+      (_, i) =>
+        `+  const value${i} = compute(input${i}, options.factor * ${i});`
+    );
+    const diff = `diff --git a/src/big.ts b/src/big.ts\n@@ -1 +1,${
+      lines.length
+    } @@\n${lines.join('\n')}\n`;
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should build the encoder once', () => {
+      lines.forEach((line) => tokenCount(line));
+
+      expect(createEncoding).toHaveBeenCalledTimes(1);
+    });
+
+    it('should encode every line of a large diff once when splitting it', () => {
+      const encode = jest.spyOn(Tiktoken.prototype, 'encode_ordinary');
+
+      expect(getDiffParts(diff, 2000, tokenCount).length).toBeGreaterThan(1);
+
+      const encoded = encode.mock.calls.map(([content]) => content);
+      lines.forEach((line) =>
+        expect(encoded.filter((content) => content === line)).toHaveLength(1)
+      );
+      // the file and its hunk are counted as a whole a few times, the
+      // parts built line by line are never recounted
+      expect(encoded.filter((content) => content.includes('\n'))).toHaveLength(
+        4
+      );
+    });
+  });
+});
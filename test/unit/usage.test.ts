@@ -0,0 +1,164 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  appendUsage,
+  formatUsageSummary,
+  getModelPrices,
+  readUsage,
+  summarizeUsage,
+  UsageEntry,
+  UsageTracker
+} from '../../src/utils/usage';
+
+describe('usage accounting', () => {
+  const prices = getModelPrices({ 'llama3-70b': { input: 0.5, output: 1 } });
+
+  it('should sum the requests of a run per model', () => {
+    const tracker = new UsageTracker();
+
+    tracker.record({
+      model: 'gemini-2.5-flash',
+      promptTokens: 1000,
+      outputTokens: 10
+    });
+    tracker.record({
+      model: 'gemini-2.5-flash',
+      promptTokens: 2000,
+      outputTokens: 20
+    });
+    tracker.record({ model: 'llama3', promptTokens: 500, outputTokens: 5 });
+
+    expect(tracker.getUsage()).toEqual([
+      {
+        model: 'gemini-2.5-flash',
+        requests: 2,
+        promptTokens: 3000,
+        outputTokens: 30
+      },
+      { model: 'llama3', requests: 1, promptTokens: 500, outputTokens: 5 }
+    ]);
+  });
+
+  it('should summarize a run with its cost', () => {
+    expect(
+      formatUsageSummary(
+        [
+          {
+            model: 'gemini-2.5-flash',
+            requests: 2,
+            promptTokens: 12_345,
+            outputTokens: 210
+          }
+        ],
+        prices
+      )
+    ).toEqual(
+      '2 requests to gemini-2.5-flash: 12,345 input + 210 output tokens, ~$0.0042'
+    );
+  });
+
+  it('should leave the cost out when a model has no price', () => {
+    expect(
+      formatUsageSummary(
+        [{ model: 'llama3', requests: 1, promptTokens: 500, outputTokens: 5 }],
+        prices
+      )
+    ).toEqual('1 request to llama3: 500 input + 5 output tokens');
+  });
+
+  it('should group the ledger by day, repo and model', () => {
+    const entries: UsageEntry[] = [
+      {
+        timestamp: '2026-10-18T09:00:00.000Z',
+        repo: 'api',
+        model: 'gemini-2.5-flash',
+        requests: 1,
+        promptTokens: 1_000_000,
+        outputTokens: 0
+      },
+      {
+        timestamp: '2026-10-19T09:00:00.000Z',
+        repo: 'web',
+        model: 'llama3-70b',
+        requests: 3,
+        promptTokens: 2_000_000,
+        outputTokens: 1_000_000
+      },
+      {
+        timestamp: '2026-10-19T12:00:00.000Z',
+        repo: 'api',
+        model: 'gemini-2.5-flash',
+        requests: 1,
+        promptTokens: 0,
+        outputTokens: 1_000_000
+      }
+    ];
+
+    expect(summarizeUsage(entries, 'day', prices)).toEqual([
+      {
+        key: '2026-10-18',
+        requests: 1,
+        promptTokens: 1_000_000,
+        outputTokens: 0,
+        cost: 0.3
+      },
+      {
+        key: '2026-10-19',
+        requests: 4,
+        promptTokens: 2_000_000,
+        outputTokens: 2_000_000,
+        cost: 4.5
+      }
+    ]);
+    expect(
+      summarizeUsage(entries, 'repo', prices).map(({ key, cost }) => [
+        key,
+        cost
+      ])
+    ).toEqual([
+      ['api', 2.8],
+      ['web', 2]
+    ]);
+    expect(
+      summarizeUsage(entries, 'model', prices).map(({ key }) => key)
+    ).toEqual(['gemini-2.5-flash', 'llama3-70b']);
+  });
+
+  describe('ledger', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'opencommit-usage-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should append entries as JSON lines and skip broken ones', async () => {
+      const ledgerPath = join(dir, 'usage.jsonl');
+      const entry: UsageEntry = {
+        timestamp: '2026-10-19T09:00:00.000Z',
+        repo: 'api',
+        model: 'gemini-2.5-flash',
+        requests: 1,
+        promptTokens: 100,
+        outputTokens: 10
+      };
+
+      await appendUsage([entry], ledgerPath);
+      await writeFile(
+        ledgerPath,
+        (await readFile(ledgerPath, 'utf8')) + '{"timestamp": "2026-\n'
+      );
+      await appendUsage([{ ...entry, repo: 'web' }], ledgerPath);
+
+      expect(await readUsage(ledgerPath)).toEqual([
+        entry,
+        { ...entry, repo: 'web' }
+      ]);
+      await expect(readUsage(join(dir, 'missing.jsonl'))).resolves.toEqual([]);
+    });
+  });
+});